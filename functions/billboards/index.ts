@@ -1,15 +1,68 @@
 import {
   SageMakerClient,
-  CreatePipelineCommand,
   StartPipelineExecutionCommand,
 } from "@aws-sdk/client-sagemaker"
+import { PrismaClient, PipelineRunStatus, PipelineType } from "@prisma/client"
+import {
+  budgetRefusal,
+  CostEstimate,
+  estimateRunCost,
+} from "../shared/costEstimate"
+import {
+  LauncherConfig,
+  loadLauncherConfig,
+  verifySecretReference,
+} from "../shared/launcherConfig"
+import { logError, logEvent } from "../shared/logging"
+import { getChannel, getRegion } from "../shared/markets"
+import { errorResponse, internalErrorResponse } from "../shared/responses"
+import {
+  boolean,
+  calendarDate,
+  channelCode,
+  instanceType,
+  object,
+  optional,
+  regionCode,
+  retryOptions,
+  Schema,
+  spotOptions,
+  string,
+  validate,
+  validationErrorResponse,
+} from "../shared/validation"
+import {
+  pipelineVariantName,
+  resolveRunSettings,
+  RetryOptions,
+  SpotOptions,
+} from "../shared/pipelineDefinition"
+import { runBudgets } from "../shared/budgets"
+import { ensurePipeline } from "../shared/ensurePipeline"
+import { createSecretStore } from "../shared/secretStore"
+import { billboardsPipelineDefinition } from "./pipeline"
+
+// Initialize Prisma client
+const prisma = new PrismaClient()
 
 // Initialize SageMaker client outside handler for connection reuse
 const sagemakerClient = new SageMakerClient({
   region: process.env.AWS_REGION || "ap-southeast-2",
 })
 
-interface LambdaEvent {
+// Checks the database secret reference before a launch
+const secretStore = createSecretStore(
+  process.env.AWS_REGION || "ap-southeast-2"
+)
+
+// One pipeline serves every day, channel and region; runs differ only in
+// parameter values. Requests with non-default retry or spot settings use a
+// variant of it.
+const PIPELINE_NAME =
+  process.env.BILLBOARDS_PIPELINE_NAME || "billboard-analysis"
+
+// Stored as PipelineRun.request, so a JSON-compatible type
+type LambdaEvent = {
   channel: string
   region: string
   programName: string
@@ -17,10 +70,79 @@ interface LambdaEvent {
   s3Key: string
   broadcast_date: string
   inferenceInstanceType?: string
+  retry?: RetryOptions
+  spot?: Partial<SpotOptions>
+  overrideBudget?: boolean // Launch even if the estimate exceeds a budget
 }
 
-export const handler = async (event: LambdaEvent) => {
+const eventSchema: Schema<LambdaEvent> = object({
+  channel: channelCode(),
+  region: regionCode(),
+  programName: string(),
+  dayId: string(),
+  s3Key: string(),
+  broadcast_date: calendarDate(),
+  inferenceInstanceType: optional(instanceType()),
+  retry: optional(retryOptions()),
+  spot: optional(spotOptions()),
+  overrideBudget: optional(boolean()),
+})
+
+interface PipelineRunRecord {
+  pipelineName: string
+  executionArn: string
+  dayId: string
+  channel: string
+  region: string
+  instanceTypes: Record<string, string>
+  spotTraining: boolean
+  request: LambdaEvent // Relaunched on-demand if spot capacity runs out
+  estimate: CostEstimate
+}
+
+// The pipeline is already running, so a failed write is logged rather than
+// reported as a failed launch
+async function recordPipelineRun({
+  request,
+  estimate,
+  ...run
+}: PipelineRunRecord): Promise<void> {
+  try {
+    await prisma.pipelineRun.create({
+      data: {
+        type: PipelineType.BILLBOARDS,
+        ...run,
+        request,
+        mediaSeconds: estimate.mediaSeconds,
+        estimatedCost: estimate.total,
+        costEstimate: estimate,
+      },
+    })
+  } catch (error) {
+    console.error(
+      `⚠️  Failed to record pipeline run ${run.executionArn}:`,
+      error
+    )
+  }
+}
+
+// Step runtime per second of broadcast, until enough runs have been recorded
+const DEFAULT_RUNTIME_RATIOS: Record<string, number> = {
+  "billboard-analysis": 0.5,
+}
+
+// Successful runs used for historical runtime ratios
+const RUNTIME_HISTORY_RUNS = 50
+
+export const handler = async (input: LambdaEvent) => {
+  logEvent(input)
+
   try {
+    const { value: event, issues } = validate(eventSchema, input)
+    if (issues) {
+      return validationErrorResponse(issues)
+    }
+
     const {
       channel,
       region,
@@ -31,90 +153,123 @@ export const handler = async (event: LambdaEvent) => {
       inferenceInstanceType = "ml.t3.large",
     } = event
 
-    const steps: object[] = []
-
-    if (
-      !channel ||
-      !region ||
-      !programName ||
-      !dayId ||
-      !s3Key ||
-      !broadcast_date
-    ) {
-      throw new Error("Missing required parameters in the event")
+    let config: LauncherConfig
+    try {
+      config = loadLauncherConfig()
+      await verifySecretReference(secretStore, config.databaseSecret)
+    } catch (error) {
+      console.error("❌ Launcher configuration:", error)
+      return errorResponse(
+        "CONFIGURATION_ERROR",
+        error instanceof Error ? error.message : "Unknown error"
+      )
     }
 
-    steps.push({
-      Name: `billboard-analysis-${channel}-${region}`,
-      Type: "Training",
-      Arguments: {
-        AlgorithmSpecification: {
-          TrainingImage:
-            "763104351884.dkr.ecr.ap-southeast-2.amazonaws.com/pytorch-training:2.0.0-gpu-py310",
-          TrainingInputMode: "File",
-        },
-        RoleArn: process.env.ROLE_ARN!,
-        OutputDataConfig: {
-          S3OutputPath: `s3://${process.env.S3_BUCKET}/pipeline-inference/${channel}-${region}/`,
-        },
-        ResourceConfig: {
-          InstanceType: inferenceInstanceType,
-          InstanceCount: 1,
-          VolumeSizeInGB: 100,
-        },
-        StoppingCondition: {
-          MaxRuntimeInSeconds: 20 * 3600,
-        },
-        HyperParameters: {
-          sagemaker_program: "main.py",
-          sagemaker_submit_directory: `s3://${process.env.S3_BUCKET}/billboard-analysis-scripts/sourcedir.tar.gz`,
-        },
-        Environment: {
-          CHANNEL: channel.toLowerCase(),
-          STREAM_REGION: region.toLowerCase(),
-          PROGRAM_NAME: programName,
-          DAY_ID: dayId,
-          LOG_S3_KEY: s3Key,
-          BROADCAST_DATE: broadcast_date,
-          DB_CONNECTION_STRING: process.env.DATABASE_URL!,
-          AWS_REGION: process.env.AWS_REGION || "ap-southeast-2",
+    // Stream fragments come from the market catalogue (validated above)
+    const channelConfig = getChannel(channel)!
+    const regionConfig = getRegion(region)!
+
+    const day = await prisma.day.findUnique({
+      where: { id: dayId },
+      include: {
+        program: true,
+        broadcasts: {
+          where: { channel: channelConfig.code, region: regionConfig.code },
+          select: { startTime: true, endTime: true },
         },
       },
     })
-
-    const pipelineDefinition = {
-      Version: "2020-12-01",
-      Metadata: {},
-      Parameters: [],
-      PipelineExperimentConfig: {
-        ExperimentName: `analysis-experiment-${channel}-${region}`,
-        TrialName: `analysis-trial-${Date.now()}`,
-      },
-      Steps: steps,
+    if (!day) {
+      return errorResponse("NOT_FOUND", `Day not found: ${dayId}`)
     }
 
-    const pipelineName = `analysis-pipeline-${channel}-${region}-${Date.now()}`
+    const settings = resolveRunSettings(event)
+    const pipelineName = pipelineVariantName(PIPELINE_NAME, settings)
+    const definition = billboardsPipelineDefinition(config, settings)
+    const parameters: Record<string, string> = {
+      Channel: channelConfig.code,
+      Region: regionConfig.code,
+      StreamChannel: channelConfig.stream,
+      StreamRegion: regionConfig.stream,
+      ProgramName: programName,
+      DayId: dayId,
+      LogS3Key: s3Key,
+      BroadcastDate: broadcast_date,
+      InferenceInstanceType: inferenceInstanceType,
+    }
 
-    // Create the pipeline
-    const createPipelineCommand = new CreatePipelineCommand({
-      PipelineName: pipelineName,
-      PipelineDefinition: JSON.stringify(pipelineDefinition),
-      PipelineDescription: `Analysis pipeline for ${channel} in ${region}`,
-      RoleArn: process.env.ROLE_ARN!,
+    // Estimate the run's cost from the day's airtime on this channel and
+    // region, and check it against the program and day budgets
+    const history = await prisma.pipelineRun.findMany({
+      where: {
+        type: PipelineType.BILLBOARDS,
+        status: PipelineRunStatus.SUCCEEDED,
+        mediaSeconds: { not: null },
+      },
+      select: { mediaSeconds: true, steps: true },
+      orderBy: { startedAt: "desc" },
+      take: RUNTIME_HISTORY_RUNS,
     })
+    const estimate = estimateRunCost({
+      definition,
+      parameters,
+      mediaSeconds: Math.round(
+        day.broadcasts.reduce(
+          (total, broadcast) =>
+            total +
+            (broadcast.endTime.getTime() - broadcast.startTime.getTime()),
+          0
+        ) / 1000
+      ),
+      defaultRatios: DEFAULT_RUNTIME_RATIOS,
+      history,
+    })
+    console.log(
+      `💰 Estimated cost ${estimate.total.toFixed(2)} ${estimate.currency} for ${programName} (${channel}-${region})`
+    )
+
+    const refusal = budgetRefusal(estimate, await runBudgets(prisma, day))
+    if (refusal && !event.overrideBudget) {
+      console.log(`🛑 ${refusal}`)
+      return errorResponse("BUDGET_EXCEEDED", refusal, { estimate })
+    }
 
-    await sagemakerClient.send(createPipelineCommand)
+    // Create or update the pipeline if its definition has changed
+    await ensurePipeline(sagemakerClient, {
+      pipelineName,
+      definition,
+      description: "Billboard analysis pipeline for a day's channel and region",
+      roleArn: config.roleArn,
+    })
 
     // Start pipeline execution
     const executionName = `execution-${region}-${channel}-${Date.now()}`
     const startExecutionCommand = new StartPipelineExecutionCommand({
       PipelineName: pipelineName,
       PipelineExecutionDisplayName: executionName,
-      PipelineParameters: [],
+      PipelineParameters: Object.entries(parameters).map(([Name, Value]) => ({
+        Name,
+        Value,
+      })),
     })
 
     const executionResponse = await sagemakerClient.send(startExecutionCommand)
 
+    // Record the run so pipeline status events can be traced back to the day
+    await recordPipelineRun({
+      pipelineName,
+      executionArn: executionResponse.PipelineExecutionArn!,
+      dayId,
+      channel: channelConfig.code,
+      region: regionConfig.code,
+      instanceTypes: {
+        "billboard-analysis": inferenceInstanceType,
+      },
+      spotTraining: settings.spot.enabled,
+      request: event,
+      estimate,
+    })
+
     return {
       statusCode: 200,
       body: JSON.stringify({
@@ -122,17 +277,12 @@ export const handler = async (event: LambdaEvent) => {
         pipelineName,
         executionArn: executionResponse.PipelineExecutionArn,
         executionName,
+        estimatedCost: estimate.total,
         parallelDownloads: true,
       }),
     }
   } catch (error) {
-    console.error("Error starting analysis pipeline:", error)
-    return {
-      statusCode: 500,
-      body: JSON.stringify({
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      }),
-    }
+    logError("Error starting analysis pipeline", error)
+    return internalErrorResponse(error)
   }
 }
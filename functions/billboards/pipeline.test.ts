@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { LauncherConfig } from "../shared/launcherConfig"
+import {
+  resolveRunSettings,
+  RunSettings,
+  TrainingStep,
+} from "../shared/pipelineDefinition"
+import { billboardsPipelineDefinition } from "./pipeline"
+
+const config: LauncherConfig = {
+  roleArn: "arn:aws:iam::123456789012:role/pipeline",
+  bucket: "analysis-bucket",
+  databaseSecret: {
+    source: "secretsmanager",
+    ref: "arn:aws:secretsmanager:ap-southeast-2:123456789012:secret:analysis-db",
+  },
+}
+
+// The definition's only step
+const analysisStep = (settings: RunSettings) => {
+  const { Steps } = billboardsPipelineDefinition(config, settings)
+  expect(Steps.map((step) => step.Name)).toEqual(["billboard-analysis"])
+  return Steps[0] as TrainingStep
+}
+
+describe("billboardsPipelineDefinition", () => {
+  beforeEach(() => {
+    vi.stubEnv("AWS_REGION", "ap-southeast-2")
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("builds the analysis step on demand", () => {
+    const step = analysisStep(resolveRunSettings({ spot: { enabled: false } }))
+
+    expect(step.Arguments.EnableManagedSpotTraining).toBeUndefined()
+    expect(step.Arguments.CheckpointConfig).toBeUndefined()
+    expect(step.RetryPolicies?.map(({ MaxAttempts }) => MaxAttempts)).toEqual([
+      3, 3,
+    ])
+    expect(step.Arguments.Environment).toMatchObject({
+      DB_SECRET_SOURCE: "secretsmanager",
+      DB_SECRET_REF: config.databaseSecret.ref,
+      AWS_REGION: "ap-southeast-2",
+    })
+  })
+
+  it("builds the analysis step with spot training and custom retries", () => {
+    const step = analysisStep(
+      resolveRunSettings({
+        retry: { maxAttempts: 5, intervalSeconds: 60 },
+        spot: { enabled: true, maxWaitTimeInSeconds: 36 * 3600 },
+      })
+    )
+
+    expect(step.Arguments.EnableManagedSpotTraining).toBe(true)
+    expect(step.Arguments.StoppingCondition).toEqual({
+      MaxRuntimeInSeconds: 20 * 3600,
+      MaxWaitTimeInSeconds: 36 * 3600,
+    })
+    expect(step.Arguments.CheckpointConfig?.LocalPath).toBe(
+      "/opt/ml/checkpoints"
+    )
+    expect(step.RetryPolicies?.[0]).toMatchObject({
+      MaxAttempts: 5,
+      IntervalSeconds: 60,
+    })
+  })
+})
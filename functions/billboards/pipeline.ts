@@ -0,0 +1,88 @@
+import {
+  databaseSecretEnvironment,
+  LauncherConfig,
+} from "../shared/launcherConfig"
+import {
+  buildPipelineDefinition,
+  join,
+  param,
+  PipelineDefinition,
+  retryPolicies,
+  RunSettings,
+  scriptTrainingStep,
+  stringParameter,
+  TRAINING_IMAGES,
+} from "../shared/pipelineDefinition"
+
+// Pipeline definition. Everything that varies per day, channel and region is
+// a parameter, so the definition only changes when the pipeline itself does.
+export function billboardsPipelineDefinition(
+  { bucket, roleArn, databaseSecret }: LauncherConfig,
+  settings: RunSettings
+): PipelineDefinition {
+  return buildPipelineDefinition(
+    [
+      stringParameter("Channel"), // Catalogue codes, used in S3 paths
+      stringParameter("Region"),
+      stringParameter("StreamChannel"),
+      stringParameter("StreamRegion"),
+      stringParameter("ProgramName"),
+      stringParameter("DayId"),
+      stringParameter("LogS3Key"),
+      stringParameter("BroadcastDate"),
+      stringParameter("S3Bucket", bucket),
+      stringParameter("InferenceInstanceType", "ml.t3.large"),
+      stringParameter(
+        "AnalysisScript",
+        `s3://${bucket}/billboard-analysis-scripts/sourcedir.tar.gz`
+      ),
+    ],
+    [
+      scriptTrainingStep({
+        name: "billboard-analysis",
+        image: TRAINING_IMAGES.pytorch20,
+        roleArn,
+        instanceType: param("InferenceInstanceType"),
+        volumeSizeInGB: 100,
+        maxRuntimeInSeconds: 20 * 3600,
+        outputPath: join(
+          "s3://",
+          param("S3Bucket"),
+          "/pipeline-inference/",
+          param("Channel"),
+          "-",
+          param("Region"),
+          "/"
+        ),
+        script: param("AnalysisScript"),
+        retryPolicies: retryPolicies(settings.retry),
+        spot: settings.spot.enabled
+          ? {
+              maxWaitTimeInSeconds: settings.spot.maxWaitTimeInSeconds,
+              checkpointPath: join(
+                "s3://",
+                param("S3Bucket"),
+                "/pipeline-checkpoints/",
+                param("DayId"),
+                "/",
+                param("Channel"),
+                "-",
+                param("Region"),
+                "/"
+              ),
+            }
+          : undefined,
+        environment: {
+          CHANNEL: param("StreamChannel"),
+          STREAM_REGION: param("StreamRegion"),
+          PROGRAM_NAME: param("ProgramName"),
+          DAY_ID: param("DayId"),
+          LOG_S3_KEY: param("LogS3Key"),
+          BROADCAST_DATE: param("BroadcastDate"),
+          ...databaseSecretEnvironment(databaseSecret),
+          AWS_REGION: process.env.AWS_REGION || "ap-southeast-2",
+        },
+      }),
+    ]
+  )
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from "vitest"
+import { batchClips } from "./batch"
+import { RECORDING_MAX_OUTPUTS } from "./recording"
+
+describe("batchClips", () => {
+  it("refuses more outputs than one recording may encode", async () => {
+    const findMany = vi.fn()
+    const prisma = { detection: { findMany } } as any
+
+    const response = await batchClips(prisma, {
+      batchClips: true,
+      detectionIds: ["detection-1"],
+      outputs: Array.from({ length: RECORDING_MAX_OUTPUTS + 1 }, () => ({
+        preset: "audio-mp3",
+      })),
+    })
+
+    expect(response.statusCode).toBe(400)
+    expect(JSON.parse(response.body).error).toMatchObject({
+      code: "VALIDATION_ERROR",
+      message: `outputs must have at most ${RECORDING_MAX_OUTPUTS} item(s)`,
+    })
+    expect(findMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,363 @@
+import { Prisma, PrismaClient } from "@prisma/client"
+import { logError } from "../shared/logging"
+import { getStreamUrl } from "../shared/markets"
+import { errorResponse } from "../shared/responses"
+import { validationErrorResponse } from "../shared/validation"
+import {
+  clipOverlay,
+  createLogoLoader,
+  LogoLoader,
+  OverlayOptions,
+} from "./overlay"
+import {
+  OutputProfile,
+  OutputSpec,
+  renditionKey,
+  resolveProfile,
+  sourceHeight,
+} from "./profiles"
+import {
+  ClipOutput,
+  primaryVideo,
+  RECORDING_MAX_OUTPUTS,
+  recordWindow,
+  Rendition,
+  renditionData,
+} from "./recording"
+import { detectionStillTiming, PreviewFormat, tryCreateStills } from "./stills"
+
+// Clips this close together share a fetch of the stream; 0 merges only
+// adjacent or overlapping clips
+const BATCH_MERGE_GAP_SECONDS = parseFloat(
+  process.env.BATCH_MERGE_GAP_SECONDS || "0",
+)
+
+// Merged windows stop growing at this length, as FFMPEG_TIMEOUT_MS must allow
+// for reading the whole window. A longer clip still gets a window of its own.
+const BATCH_MAX_WINDOW_SECONDS = parseFloat(
+  process.env.BATCH_MAX_WINDOW_SECONDS || "900",
+)
+
+// Makes clips for existing detections that have no video yet
+export interface BatchEvent {
+  batchClips: true
+  broadcastId?: string // Every detection of the broadcast
+  detectionIds?: string[] // Or these detections; exactly one of the two
+  secondsBefore?: number // Added before each detection; defaults to 0
+  secondsAfter?: number // Added after each detection; defaults to 0
+  preview?: PreviewFormat
+  outputs?: OutputSpec[] // Defaults to the default preset
+  overlay?: OverlayOptions
+}
+
+export interface BatchResult {
+  detectionId: string
+  status: "created" | "skipped" | "failed"
+  video?: string | null
+  still?: string | null
+  preview?: string | null
+  renditions?: string[] // S3 keys
+  error?: string
+}
+
+const detectionInclude = {
+  broadcast: { include: { day: { include: { program: true } } } },
+  asset: { include: { brand: true } },
+} satisfies Prisma.DetectionInclude
+
+type BatchDetection = Prisma.DetectionGetPayload<{
+  include: typeof detectionInclude
+}>
+
+// A detection's clip, in whole Unix seconds
+interface Clip {
+  detection: BatchDetection
+  start: number
+  end: number
+}
+
+// One fetch of a channel and region's stream, covering one or more clips
+interface FetchWindow {
+  channel: string
+  region: string
+  start: number
+  end: number
+  clips: Clip[]
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Unknown error"
+
+/**
+ * Group clips into as few stream fetches as possible: clips on the same
+ * channel and region that overlap, touch or fall within the merge gap share a
+ * window, up to the maximum window length and `maxClips` clips
+ */
+function mergeWindows(clips: Clip[], maxClips: number): FetchWindow[] {
+  const sorted = [...clips].sort((a, b) => a.start - b.start || a.end - b.end)
+  const windows: FetchWindow[] = []
+  const open = new Map<string, FetchWindow>()
+
+  for (const clip of sorted) {
+    const { channel, region } = clip.detection.broadcast
+    const stream = `${channel}/${region}`
+    const window = open.get(stream)
+    const end = Math.max(window?.end ?? 0, clip.end)
+    if (
+      window &&
+      window.clips.length < maxClips &&
+      clip.start <= window.end + BATCH_MERGE_GAP_SECONDS &&
+      end - window.start <= BATCH_MAX_WINDOW_SECONDS
+    ) {
+      window.end = end
+      window.clips.push(clip)
+      continue
+    }
+    const next = {
+      channel,
+      region,
+      start: clip.start,
+      end: clip.end,
+      clips: [clip],
+    }
+    open.set(stream, next)
+    windows.push(next)
+  }
+
+  return windows
+}
+
+/**
+ * Record one window and store each of its clips against its detection. If
+ * the recording fails, every clip in the window fails with it.
+ */
+async function recordClips(
+  prisma: PrismaClient,
+  window: FetchWindow,
+  profiles: OutputProfile[],
+  { preview, overlay: overlayOptions }: BatchEvent,
+  logos: LogoLoader,
+): Promise<BatchResult[]> {
+  const outputs: ClipOutput[] = []
+  for (const { detection, start, end } of window.clips) {
+    const { broadcast } = detection
+    const overlay = overlayOptions
+      ? await clipOverlay(
+          overlayOptions,
+          {
+            channel: broadcast.channel,
+            region: broadcast.region,
+            startTime: new Date(start * 1000),
+            endTime: new Date(end * 1000),
+            program: broadcast.day.program.name,
+          },
+          detection.asset?.brand ?? null,
+          logos,
+        )
+      : null
+    for (const profile of profiles) {
+      outputs.push({
+        profile,
+        offset: start - window.start,
+        duration: end - start,
+        overlay,
+        s3Key: renditionKey(`videos/${detection.id}`, profile),
+      })
+    }
+  }
+
+  const streamUrl = getStreamUrl(
+    window.channel,
+    window.region,
+    window.start,
+    window.end,
+    sourceHeight(profiles),
+  )
+  const renditions = await recordWindow(
+    streamUrl,
+    window.end - window.start,
+    outputs,
+  )
+
+  // Renditions come back in output order: each clip's profiles in turn
+  const results: BatchResult[] = []
+  for (const [index, { detection, start, end }] of window.clips.entries()) {
+    const clipRenditions: Rendition[] = renditions.slice(
+      index * profiles.length,
+      (index + 1) * profiles.length,
+    )
+    try {
+      const video = primaryVideo(clipRenditions)
+      // Kept so a later backfill finds the detection within the padding
+      const clipStartTime = new Date(start * 1000)
+      const clipEndTime = new Date(end * 1000)
+      const stills = video
+        ? await tryCreateStills({
+            bucket: process.env.S3_BUCKET!,
+            videoKey: video,
+            ...detectionStillTiming({
+              ...detection,
+              clipStartTime,
+              clipEndTime,
+            }),
+            preview,
+          })
+        : null
+
+      // Replace renditions of the same profiles from an earlier attempt
+      await prisma.$transaction([
+        prisma.detectionRendition.deleteMany({
+          where: {
+            detectionId: detection.id,
+            profile: { in: profiles.map(({ name }) => name) },
+          },
+        }),
+        prisma.detection.update({
+          where: { id: detection.id },
+          data: {
+            video,
+            still: stills?.still ?? null,
+            clipStartTime,
+            clipEndTime,
+            renditions: { create: clipRenditions.map(renditionData) },
+          },
+        }),
+      ])
+
+      results.push({
+        detectionId: detection.id,
+        status: "created",
+        video,
+        still: stills?.still ?? null,
+        preview: stills?.preview ?? null,
+        renditions: clipRenditions.map(({ s3Key }) => s3Key),
+      })
+    } catch (error) {
+      logError(`Saving clip for detection ${detection.id} failed`, error)
+      results.push({
+        detectionId: detection.id,
+        status: "failed",
+        error: errorMessage(error),
+      })
+    }
+  }
+  return results
+}
+
+/**
+ * Create clips for a broadcast's detections, or a list of detections, that
+ * have no video. Clips close together are recorded from a single fetch of
+ * the stream, and each detection is updated with its own clip.
+ */
+export async function batchClips(prisma: PrismaClient, event: BatchEvent) {
+  const {
+    broadcastId,
+    detectionIds,
+    secondsBefore = 0,
+    secondsAfter = 0,
+    outputs = [{ preset: "default" }],
+  } = event
+  // Every clip in a window records each profile, so one clip must fit
+  if (outputs.length > RECORDING_MAX_OUTPUTS) {
+    return validationErrorResponse([
+      {
+        path: "outputs",
+        message: `must have at most ${RECORDING_MAX_OUTPUTS} item(s)`,
+      },
+    ])
+  }
+  const profiles = outputs.map(resolveProfile)
+
+  if (broadcastId) {
+    const broadcast = await prisma.broadcast.findUnique({
+      where: { id: broadcastId },
+    })
+    if (!broadcast) {
+      return errorResponse("NOT_FOUND", `Broadcast not found: ${broadcastId}`)
+    }
+  }
+
+  const detections = await prisma.detection.findMany({
+    where: broadcastId ? { broadcastId } : { id: { in: detectionIds } },
+    include: detectionInclude,
+    orderBy: { startTime: "asc" },
+  })
+
+  const results: BatchResult[] = (detectionIds ?? [])
+    .filter((id) => !detections.some((detection) => detection.id === id))
+    .map((detectionId) => ({
+      detectionId,
+      status: "failed",
+      error: "Detection not found",
+    }))
+
+  const clips: Clip[] = []
+  for (const detection of detections) {
+    if (detection.video) {
+      results.push({
+        detectionId: detection.id,
+        status: "skipped",
+        video: detection.video,
+      })
+      continue
+    }
+    clips.push({
+      detection,
+      start: Math.floor(detection.startTime.getTime() / 1000) - secondsBefore,
+      end: Math.ceil(detection.endTime.getTime() / 1000) + secondsAfter,
+    })
+  }
+
+  // Each clip adds an output per profile to its window's recording
+  const windows = mergeWindows(
+    clips,
+    Math.floor(RECORDING_MAX_OUTPUTS / profiles.length),
+  )
+  console.log(
+    `🗂️  Batch: ${clips.length} clip(s) in ${windows.length} fetch(es), ${results.length} skipped or missing`,
+  )
+
+  // One window at a time: each is a full read and encode of the stream
+  const logos = createLogoLoader(process.env.S3_BUCKET!)
+  try {
+    for (const window of windows) {
+      try {
+        results.push(
+          ...(await recordClips(prisma, window, profiles, event, logos)),
+        )
+      } catch (error) {
+        logError(
+          `Recording ${window.channel}/${window.region} ${window.start}-${window.end} failed`,
+          error,
+        )
+        results.push(
+          ...window.clips.map(({ detection }) => ({
+            detectionId: detection.id,
+            status: "failed" as const,
+            error: errorMessage(error),
+          })),
+        )
+      }
+    }
+  } finally {
+    await logos.cleanup()
+  }
+
+  const count = (status: BatchResult["status"]) =>
+    results.filter((result) => result.status === status).length
+  const failed = count("failed")
+  console.log(
+    `✅ Batch: ${count("created")} created, ${count("skipped")} skipped, ${failed} failed`,
+  )
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      success: failed === 0,
+      fetches: windows.length,
+      created: count("created"),
+      skipped: count("skipped"),
+      failed,
+      results,
+    }),
+  }
+}
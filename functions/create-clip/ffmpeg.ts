@@ -0,0 +1,192 @@
+import { spawn } from "child_process"
+import { PassThrough, Readable } from "stream"
+
+// Stderr lines kept for the error message when ffmpeg fails
+const MAX_STDERR_LINES = 20
+
+// ffmpeg -progress reports, parsed from its key=value blocks
+export interface FfmpegProgress {
+  outTimeSeconds: number // Media time written so far
+  frame: number | null
+  fps: number | null
+  bitrate: string | null // e.g. "1834.2kbits/s"
+  totalSize: number | null // Bytes written so far
+  speed: string | null // e.g. "2.1x"
+  done: boolean // Set on the final report
+}
+
+interface FfmpegOptions {
+  timeoutMs: number
+  input?: Readable // Fed to ffmpeg's stdin, for arguments reading pipe:0
+  outputs?: number // Pipes the arguments write to (see outputPipe); default 1
+  onProgress?: (progress: FfmpegProgress) => void
+}
+
+export interface FfmpegRun {
+  // What ffmpeg writes to each output pipe. Each ends only once ffmpeg exits
+  // cleanly; a failure destroys them with the error, so a consumer never
+  // mistakes a partial clip for a whole one
+  outputs: Readable[]
+  output: Readable // outputs[0], i.e. stdout
+  finished: Promise<void>
+}
+
+// File descriptor of an ffmpeg output: stdout first, then 3 up (stderr
+// carries progress)
+const outputDescriptor = (index: number) => (index === 0 ? 1 : index + 2)
+
+/**
+ * Pipe argument for the output at `index`
+ */
+export const outputPipe = (index: number) => `pipe:${outputDescriptor(index)}`
+
+/**
+ * Bundled ffmpeg in Lambda, FFMPEG_PATH if set, otherwise ffmpeg on the PATH
+ */
+export function ffmpegPath(): string {
+  if (process.env.FFMPEG_PATH) return process.env.FFMPEG_PATH
+  return process.env.LAMBDA_TASK_ROOT
+    ? `${process.env.LAMBDA_TASK_ROOT}/bin/ffmpeg`
+    : "ffmpeg"
+}
+
+const toNumber = (value: string | undefined) => {
+  const parsed = value === undefined ? NaN : parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+const toText = (value: string | undefined) =>
+  value === undefined || value === "N/A" ? null : value
+
+/**
+ * Progress block (the key=value lines up to and including `progress=`) as a
+ * report
+ */
+export function parseProgressBlock(
+  fields: Record<string, string>,
+): FfmpegProgress {
+  // out_time_us is microseconds; older builds also misname it out_time_ms
+  const outTimeMicros = toNumber(fields.out_time_us ?? fields.out_time_ms)
+  return {
+    outTimeSeconds: outTimeMicros === null ? 0 : outTimeMicros / 1_000_000,
+    frame: toNumber(fields.frame),
+    fps: toNumber(fields.fps),
+    bitrate: toText(fields.bitrate),
+    totalSize: toNumber(fields.total_size),
+    speed: toText(fields.speed),
+    done: fields.progress === "end",
+  }
+}
+
+/**
+ * Run ffmpeg without a shell. Stderr is split into progress reports, which go
+ * to `onProgress`, and other lines, which are logged and kept for errors.
+ */
+export function runFfmpeg(args: string[], options: FfmpegOptions): FfmpegRun {
+  const outputCount = options.outputs ?? 1
+  const child = spawn(ffmpegPath(), args, {
+    stdio: ["pipe", "pipe", "pipe", ...Array(outputCount - 1).fill("pipe")],
+  })
+  // ffmpeg closes stdin once it has read enough (e.g. a single frame)
+  child.stdin!.on("error", () => {})
+  let inputError: Error | null = null
+  if (options.input) {
+    options.input.on("error", (error) => {
+      inputError = error
+      child.kill("SIGKILL")
+    })
+    options.input.pipe(child.stdin!)
+  } else {
+    child.stdin!.end()
+  }
+
+  const outputs = Array.from({ length: outputCount }, (_, index) => {
+    const output = new PassThrough()
+    const source = child.stdio[outputDescriptor(index)] as Readable
+    source.pipe(output, { end: false })
+    // Stop ffmpeg if a consumer gives up on its output (e.g. a failed upload)
+    output.on("close", () => {
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill("SIGKILL")
+      }
+    })
+    return output
+  })
+
+  const stderrTail: string[] = []
+  let block: Record<string, string> = {}
+  let partialLine = ""
+
+  const handleLine = (line: string) => {
+    const match = line.match(/^(\w+)=\s*(.*)$/)
+    if (!match) {
+      if (!line.trim()) return
+      console.log(`🎞️  ffmpeg: ${line}`)
+      stderrTail.push(line)
+      if (stderrTail.length > MAX_STDERR_LINES) stderrTail.shift()
+      return
+    }
+    const [, key, value] = match
+    block[key] = value.trim()
+    if (key === "progress") {
+      options.onProgress?.(parseProgressBlock(block))
+      block = {}
+    }
+  }
+
+  child.stderr!.setEncoding("utf-8")
+  child.stderr!.on("data", (chunk: string) => {
+    const lines = (partialLine + chunk).split(/\r?\n/)
+    partialLine = lines.pop() ?? ""
+    lines.forEach(handleLine)
+  })
+
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    child.kill("SIGKILL")
+  }, options.timeoutMs)
+
+  const finished = new Promise<void>((resolve, reject) => {
+    const fail = (error: Error) => {
+      clearTimeout(timer)
+      outputs.forEach((output) => output.destroy(error))
+      reject(error)
+    }
+
+    child.on("error", (error) =>
+      fail(new Error(`FFmpeg could not start: ${error.message}`)),
+    )
+    // "close" fires once the process has exited and its pipes are drained
+    child.on("close", (code, signal) => {
+      if (partialLine) handleLine(partialLine)
+      const stderr = stderrTail.length
+        ? `\nStderr: ${stderrTail.join("\n")}`
+        : ""
+      if (inputError) {
+        return fail(new Error(`FFmpeg input failed: ${inputError.message}`))
+      }
+      if (timedOut) {
+        return fail(
+          new Error(
+            `FFmpeg timed out after ${options.timeoutMs / 1000}s${stderr}`,
+          ),
+        )
+      }
+      if (code !== 0) {
+        return fail(
+          new Error(
+            `FFmpeg failed (${signal || `exit code ${code}`})${stderr}`,
+          ),
+        )
+      }
+      clearTimeout(timer)
+      outputs.forEach((output) => output.end())
+      resolve()
+    })
+  })
+  // Callers may only await the output; the failure reaches them through it
+  finished.catch(() => {})
+
+  return { outputs, output: outputs[0], finished }
+}
@@ -1,18 +1,64 @@
 import { PrismaClient } from "@prisma/client"
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3"
-import { exec } from "child_process"
-import { promisify } from "util"
-import fs from "fs/promises"
-import path from "path"
-import os from "os"
-
-const execAsync = promisify(exec)
+import { getBroadcastDay } from "../shared/broadcastDay"
+import { logError, logEvent } from "../shared/logging"
+import { getChannel, getRegion, getStreamUrl } from "../shared/markets"
+import { errorResponse, internalErrorResponse } from "../shared/responses"
+import {
+  array,
+  boolean,
+  calendarDate,
+  channelCode,
+  literal,
+  number,
+  object,
+  oneOf,
+  optional,
+  refine,
+  regionCode,
+  Schema,
+  string,
+  timeOfDay,
+  validate,
+  validationErrorResponse,
+} from "../shared/validation"
+import { BatchEvent, batchClips } from "./batch"
+import {
+  clipOverlay,
+  createLogoLoader,
+  OverlayOptions,
+  overlayTemplateNames,
+  ResolvedOverlay,
+} from "./overlay"
+import {
+  ASPECTS,
+  CONTAINERS,
+  OutputSpec,
+  PRESET_NAMES,
+  profileProblem,
+  renditionKey,
+  resolveProfile,
+  sourceHeight,
+  VIDEO_CODECS,
+} from "./profiles"
+import {
+  primaryVideo,
+  RECORDING_MAX_OUTPUTS,
+  recordWindow,
+  Rendition,
+  renditionData,
+} from "./recording"
+import {
+  createStills,
+  detectionStillTiming,
+  PREVIEW_FORMATS,
+  PreviewFormat,
+  tryCreateStills,
+} from "./stills"
+
 const prisma = new PrismaClient()
 
-// Initialize S3 client outside handler for connection reuse
-const s3Client = new S3Client({
-  region: process.env.AWS_REGION || "ap-southeast-2",
-})
+// Detections given stills per backfill invocation, unless the event says
+const DEFAULT_BACKFILL_LIMIT = 50
 
 interface LambdaEvent {
   programSlug: string
@@ -23,10 +69,200 @@ interface LambdaEvent {
   secondsBefore: number
   secondsAfter: number
   assetId: string
+  preview?: PreviewFormat // Also make a contact sheet or GIF strip
+  outputs?: OutputSpec[] // Defaults to the default preset
+  overlay?: OverlayOptions // Burn proof-of-airing details into video outputs
+}
+
+// Creates stills for existing detections from their stored videos
+interface BackfillEvent {
+  backfillStills: true
+  detectionIds?: string[] // Defaults to detections without a still
+  limit?: number
+  preview?: PreviewFormat
+}
+
+interface BackfillResult {
+  detectionId: string
+  still?: string
+  preview?: string | null
+  error?: string
+}
+
+const BITRATE_PATTERN = /^\d+(\.\d+)?[kM]$/
+
+const outputSchema: Schema<OutputSpec> = refine(
+  object({
+    preset: optional(oneOf(PRESET_NAMES)),
+    name: optional(
+      string({
+        pattern: /^[a-z0-9-]+$/,
+        format: "lowercase letters, digits and -",
+      }),
+    ),
+    container: optional(oneOf(CONTAINERS)),
+    height: optional(number({ min: 144, max: 2160, integer: true })),
+    aspect: optional(oneOf(ASPECTS)),
+    videoCodec: optional(oneOf(VIDEO_CODECS)),
+    videoBitrate: optional(
+      string({ pattern: BITRATE_PATTERN, format: "a bitrate like 4M or 800k" }),
+    ),
+    audioBitrate: optional(
+      string({ pattern: BITRATE_PATTERN, format: "a bitrate like 128k" }),
+    ),
+  }),
+  profileProblem,
+)
+
+const overlaySchema: Schema<OverlayOptions> = object({
+  template: optional(oneOf(overlayTemplateNames())),
+  logo: optional(boolean()),
+})
+
+// Names become S3 keys, so two outputs can't share one
+function duplicateOutput(outputs: OutputSpec[] = []): string | null {
+  const names = outputs.map((output) => resolveProfile(output).name)
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index)
+  return duplicate ? `outputs has more than one "${duplicate}" output` : null
+}
+
+const eventSchema: Schema<LambdaEvent> = refine(
+  object({
+    programSlug: string(),
+    channel: channelCode(),
+    region: regionCode(),
+    date: calendarDate(),
+    time: timeOfDay(),
+    secondsBefore: number({ min: 0 }),
+    secondsAfter: number({ min: 0 }),
+    assetId: string(),
+    preview: optional(oneOf(PREVIEW_FORMATS)),
+    outputs: optional(
+      array(outputSchema, { minItems: 1, maxItems: RECORDING_MAX_OUTPUTS }),
+    ),
+    overlay: optional(overlaySchema),
+  }),
+  ({ secondsBefore, secondsAfter, outputs }) => {
+    if (secondsBefore + secondsAfter <= 0) {
+      return "secondsBefore and secondsAfter can't both be 0"
+    }
+    return duplicateOutput(outputs)
+  },
+)
+
+const backfillEventSchema: Schema<BackfillEvent> = object({
+  backfillStills: literal(true),
+  detectionIds: optional(array(string(), { minItems: 1 })),
+  limit: optional(number({ min: 1, integer: true })),
+  preview: optional(oneOf(PREVIEW_FORMATS)),
+})
+
+const batchEventSchema: Schema<BatchEvent> = refine(
+  object({
+    batchClips: literal(true),
+    broadcastId: optional(string()),
+    detectionIds: optional(array(string(), { minItems: 1 })),
+    secondsBefore: optional(number({ min: 0 })),
+    secondsAfter: optional(number({ min: 0 })),
+    preview: optional(oneOf(PREVIEW_FORMATS)),
+    outputs: optional(
+      array(outputSchema, { minItems: 1, maxItems: RECORDING_MAX_OUTPUTS }),
+    ),
+    overlay: optional(overlaySchema),
+  }),
+  ({ broadcastId, detectionIds, outputs }) => {
+    if (!broadcastId === !detectionIds) {
+      return "needs exactly one of broadcastId and detectionIds"
+    }
+    return duplicateOutput(outputs)
+  },
+)
+
+/**
+ * Create stills (and optional previews) for detections with a video but no
+ * still, taking each still at the middle of the detection
+ */
+async function backfillStills({
+  detectionIds,
+  limit = DEFAULT_BACKFILL_LIMIT,
+  preview,
+}: BackfillEvent) {
+  const detections = await prisma.detection.findMany({
+    where: {
+      video: { not: null },
+      ...(detectionIds ? { id: { in: detectionIds } } : { still: null }),
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  })
+  console.log(`🖼️  Backfilling stills for ${detections.length} detection(s)`)
+
+  // One at a time: each still is an ffmpeg run over the detection's video
+  const results: BackfillResult[] = []
+  for (const detection of detections) {
+    try {
+      const stills = await createStills({
+        bucket: process.env.S3_BUCKET!,
+        videoKey: detection.video!,
+        ...detectionStillTiming(detection),
+        preview,
+      })
+      await prisma.detection.update({
+        where: { id: detection.id },
+        data: { still: stills.still },
+      })
+      results.push({ detectionId: detection.id, ...stills })
+    } catch (error) {
+      logError(`Still for detection ${detection.id} failed`, error)
+      results.push({
+        detectionId: detection.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    }
+  }
+
+  const failed = results.filter((result) => result.error).length
+  console.log(
+    `✅ Backfilled ${results.length - failed} still(s), ${failed} failed`,
+  )
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      success: failed === 0,
+      created: results.length - failed,
+      failed,
+      results,
+    }),
+  }
 }
 
-export const handler = async (event: LambdaEvent) => {
+export const handler = async (
+  event: LambdaEvent | BackfillEvent | BatchEvent,
+) => {
+  logEvent(event)
+
   try {
+    if (event && "batchClips" in event) {
+      const { value: batch, issues } = validate(batchEventSchema, event)
+      if (issues) {
+        return validationErrorResponse(issues)
+      }
+      return await batchClips(prisma, batch)
+    }
+
+    if (event && "backfillStills" in event) {
+      const { value: backfill, issues } = validate(backfillEventSchema, event)
+      if (issues) {
+        return validationErrorResponse(issues)
+      }
+      return await backfillStills(backfill)
+    }
+
+    const { value, issues } = validate(eventSchema, event)
+    if (issues) {
+      return validationErrorResponse(issues)
+    }
+
     const {
       programSlug,
       channel,
@@ -36,24 +272,15 @@ export const handler = async (event: LambdaEvent) => {
       secondsBefore,
       secondsAfter,
       assetId,
-    } = event
-
-    // Validate required fields
-    if (
-      !programSlug ||
-      !channel ||
-      !region ||
-      !date ||
-      !time ||
-      secondsBefore === undefined ||
-      secondsAfter === undefined ||
-      !assetId
-    ) {
-      return {
-        statusCode: 400,
-        body: JSON.stringify({ error: "Missing required fields" }),
-      }
-    }
+      preview,
+      outputs = [{ preset: "default" }],
+      overlay: overlayOptions,
+    } = value
+    const profiles = outputs.map(resolveProfile)
+
+    // Validated against the catalogue above
+    const channelConfig = getChannel(channel)!
+    const regionConfig = getRegion(region)!
 
     // Combine date and time
     const fullDateTime = `${date}T${time}`
@@ -71,49 +298,42 @@ export const handler = async (event: LambdaEvent) => {
     })
 
     if (!program) {
-      return {
-        statusCode: 404,
-        body: JSON.stringify({ error: "Program not found" }),
-      }
+      return errorResponse("NOT_FOUND", `Program not found: ${programSlug}`)
     }
 
-    // Find the day for this date
-    // Input date and time are in UTC, but Days are stored in AEST in the DB
-    // Convert centerTime to AEST by adding 10 hours
-    const aestTime = new Date(centerTime.getTime() + 10 * 60 * 60 * 1000)
+    // Find the broadcast day for this time in the region's local timezone
+    const dayDate = getBroadcastDay(centerTime, regionConfig.code)
 
-    // Get the AEST date at midnight (zero hours/minutes)
-    const aestYear = aestTime.getUTCFullYear()
-    const aestMonth = aestTime.getUTCMonth()
-    const aestDay = aestTime.getUTCDate()
-    const dayDate = new Date(Date.UTC(aestYear, aestMonth, aestDay, 0, 0, 0, 0))
+    // A broadcast belongs to the day it started on, so one that began before
+    // the rollover may still be airing on the next broadcast day
+    const previousDayDate = new Date(dayDate.getTime() - 24 * 60 * 60 * 1000)
 
     console.log(
-      `UTC: ${fullDateTime}, AEST: ${aestTime.toISOString()}, Day lookup: ${dayDate.toISOString()}`,
+      `UTC: ${fullDateTime}, Region: ${region}, Day lookup: ${dayDate.toISOString()}`,
     )
 
-    const day = await prisma.day.findFirst({
+    const days = await prisma.day.findMany({
       where: {
         programId: program.id,
-        date: dayDate,
+        date: { in: [dayDate, previousDayDate] },
       },
     })
 
-    if (!day) {
-      return {
-        statusCode: 404,
-        body: JSON.stringify({
-          error: "No day found for this date. Please create the day first.",
-        }),
-      }
+    // Either day will do: the broadcast lookup below decides which one the
+    // clip belongs to
+    if (days.length === 0) {
+      return errorResponse(
+        "NOT_FOUND",
+        "No day found for this date. Please create the day first.",
+      )
     }
 
     // Find or create broadcast for this time window
     let broadcast = await prisma.broadcast.findFirst({
       where: {
-        dayId: day.id,
-        channel: channel,
-        region: region,
+        dayId: { in: days.map((day) => day.id) },
+        channel: channelConfig.code,
+        region: regionConfig.code,
         startTime: {
           lte: startTime,
         },
@@ -124,111 +344,109 @@ export const handler = async (event: LambdaEvent) => {
     })
 
     if (!broadcast) {
-      // Create a new broadcast
-      throw new Error("No broadcast found for this time window.")
+      return errorResponse(
+        "NOT_FOUND",
+        "No broadcast found for this time window.",
+      )
     }
 
-    // Construct stream URL
-    const regionCode = region.toLowerCase()
-    const channelCode = channel.toLowerCase()
-    const streamUrl = `https://prod-simulcast-${regionCode}-${channelCode}.livestream-cdn.9vms.com.au/u/prod/simulcast/${regionCode}/${channelCode}/hls/r1/index.m3u8?start=${startTimestamp}&end=${endTimestamp}&aws.manifestfilter=audio_codec:AACL;video_height:720-720;video_framerate:25-25`
-
-    // Create temporary directory for download
-    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "clip-"))
-    const tempFilePath = path.join(tempDir, "clip.mp4")
+    // Construct stream URL, for a source rendition that covers every output
+    const streamUrl = getStreamUrl(
+      channelConfig.code,
+      regionConfig.code,
+      startTimestamp,
+      endTimestamp,
+      sourceHeight(profiles),
+    )
 
+    const duration = secondsBefore + secondsAfter
+    const timestamp = centerTime.toISOString().replace(/[:.]/g, "-")
+    const logos = createLogoLoader(process.env.S3_BUCKET!)
+    let renditions: Rendition[]
     try {
-      // Download stream using ffmpeg with precise duration
-      const duration = secondsBefore + secondsAfter
-      // Use bundled ffmpeg if available, otherwise use system ffmpeg
-      const ffmpegPath = process.env.LAMBDA_TASK_ROOT
-        ? `${process.env.LAMBDA_TASK_ROOT}/bin/ffmpeg`
-        : "ffmpeg"
-      const ffmpegCommand = `${ffmpegPath} -i "${streamUrl}" -t ${duration} -c:v libx264 -preset ultrafast -c:a aac -y "${tempFilePath}"`
-
-      console.log(`Downloading clip: ${ffmpegCommand}`)
-
-      try {
-        const { stdout, stderr } = await execAsync(ffmpegCommand, {
-          timeout: 300000, // 5 minute timeout
-          maxBuffer: 10 * 1024 * 1024, // 10MB buffer for output
+      // Proof-of-airing overlay: where and when the clip aired, the program
+      // and the asset's brand
+      let overlay: ResolvedOverlay | null = null
+      if (overlayOptions) {
+        const asset = await prisma.asset.findUnique({
+          where: { id: assetId },
+          include: { brand: true },
         })
-        console.log(`FFmpeg stdout: ${stdout}`)
-        if (stderr) console.log(`FFmpeg stderr: ${stderr}`)
-      } catch (execError: any) {
-        console.error(`FFmpeg execution failed:`, execError)
-        console.error(`FFmpeg stdout: ${execError.stdout}`)
-        console.error(`FFmpeg stderr: ${execError.stderr}`)
-        throw new Error(
-          `FFmpeg failed: ${execError.message}\nStderr: ${execError.stderr}`,
+        overlay = await clipOverlay(
+          overlayOptions,
+          {
+            channel: channelConfig.code,
+            region: regionConfig.code,
+            startTime,
+            endTime,
+            program: program.name,
+          },
+          asset?.brand ?? null,
+          logos,
         )
       }
 
-      // Check if file was created
-      const fileStats = await fs.stat(tempFilePath)
-      console.log(`Video file created: ${fileStats.size} bytes`)
-
-      // Read the file
-      const fileBuffer = await fs.readFile(tempFilePath)
-
-      // Generate S3 key
-      const timestamp = centerTime.toISOString().replace(/[:.]/g, "-")
-      const s3Key = `videos/${timestamp}.mp4`
+      // Every output is encoded from a single read of the stream
+      renditions = await recordWindow(
+        streamUrl,
+        duration,
+        profiles.map((profile) => ({
+          profile,
+          offset: 0,
+          duration,
+          overlay,
+          s3Key: renditionKey(`videos/${timestamp}`, profile),
+        })),
+      )
+    } finally {
+      await logos.cleanup()
+    }
 
-      // Upload to S3
-      const uploadParams = {
-        Bucket: process.env.S3_BUCKET!,
-        Key: s3Key,
-        Body: fileBuffer,
-        ContentType: "video/mp4",
-      }
+    // Audio-only requests have no video, so no still
+    const video = primaryVideo(renditions)
+    const stills = video
+      ? await tryCreateStills({
+          bucket: process.env.S3_BUCKET!,
+          videoKey: video,
+          centreSeconds: secondsBefore,
+          durationSeconds: duration,
+          preview,
+        })
+      : null
 
-      console.log(`Uploading to S3: ${s3Key}`)
-      await s3Client.send(new PutObjectCommand(uploadParams))
-
-      // Create detection
-      const detection = await prisma.detection.create({
-        data: {
-          video: s3Key,
-          startTime: startTime,
-          endTime: endTime,
-          broadcastId: broadcast.id,
-          assetId: assetId,
-          isBillboard: false,
-          falsePositive: false,
+    // Create detection
+    const detection = await prisma.detection.create({
+      data: {
+        video,
+        still: stills?.still ?? null,
+        startTime: startTime,
+        endTime: endTime,
+        clipStartTime: new Date(startTimestamp * 1000),
+        clipEndTime: new Date(endTimestamp * 1000),
+        broadcastId: broadcast.id,
+        assetId: assetId,
+        isBillboard: false,
+        falsePositive: false,
+        renditions: {
+          create: renditions.map(renditionData),
         },
-      })
+      },
+      include: { renditions: true },
+    })
 
-      // Cleanup temp files
-      await fs.unlink(tempFilePath)
-      await fs.rmdir(tempDir)
-
-      return {
-        statusCode: 200,
-        body: JSON.stringify({
-          success: true,
-          detection,
-          broadcast,
-          day,
-        }),
-      }
-    } catch (error) {
-      // Cleanup on error
-      try {
-        await fs.unlink(tempFilePath).catch(() => {})
-        await fs.rmdir(tempDir).catch(() => {})
-      } catch {}
-      throw error
-    }
-  } catch (error) {
-    console.error("Error creating clip:", error)
     return {
-      statusCode: 500,
+      statusCode: 200,
       body: JSON.stringify({
-        error: "Failed to create clip",
-        details: error instanceof Error ? error.message : "Unknown error",
+        success: true,
+        detection,
+        preview: stills?.preview ?? null,
+        broadcast,
+        day: days.find((day) => day.id === broadcast.dayId),
       }),
     }
+  } catch (error) {
+    logError("Error creating clip", error)
+    return internalErrorResponse(error)
   } finally {
     await prisma.$disconnect()
   }
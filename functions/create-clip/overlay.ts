@@ -0,0 +1,245 @@
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+import { formatLocalTime } from "../shared/broadcastDay"
+import { getChannel, getRegion } from "../shared/markets"
+import { getS3File } from "../shared/s3"
+import overlayTemplates from "./overlayTemplates.json"
+
+export type OverlayPosition =
+  "top-left" | "top-right" | "bottom-left" | "bottom-right"
+
+// Layout of the burned-in text and logo. Sizes are fractions of the output's
+// shorter side (fontSize, margin) or width (logo width), so one template suits
+// landscape and portrait outputs alike.
+export interface OverlayTemplate {
+  fontSize: number
+  fontColor: string // ffmpeg colour, e.g. "white" or "#ffcc00"
+  boxColor: string // Background behind each line, e.g. "black@0.5"
+  margin: number
+  // Text with {placeholders}; lines in the same corner stack in order
+  lines: { text: string; position: OverlayPosition }[]
+  logo?: { position: OverlayPosition; width: number }
+}
+
+// What the overlay shows, rendered for one clip
+export interface ResolvedOverlay {
+  name: string // Template name
+  template: OverlayTemplate
+  lines: { text: string; position: OverlayPosition }[]
+  logo: string | null // ffmpeg input (file path or URL) of the brand logo
+}
+
+// Overlay requested with a clip
+export interface OverlayOptions {
+  template?: string // Defaults to DEFAULT_OVERLAY_TEMPLATE
+  logo?: boolean // Include the asset's Brand.image; defaults to true
+}
+
+interface OverlayDetails {
+  channel: string
+  region: string
+  startTime: Date
+  endTime: Date
+  program: string
+  brand: string | null
+}
+
+// OVERLAY_TEMPLATES (JSON, name -> template) overrides or extends the
+// bundled templates
+const OVERLAY_TEMPLATES: Record<string, OverlayTemplate> = {
+  ...(overlayTemplates as Record<string, OverlayTemplate>),
+  ...JSON.parse(process.env.OVERLAY_TEMPLATES || "{}"),
+}
+
+export const DEFAULT_OVERLAY_TEMPLATE =
+  process.env.DEFAULT_OVERLAY_TEMPLATE || "standard"
+
+// Font for burned-in text; without one ffmpeg falls back to fontconfig
+const OVERLAY_FONT_FILE = process.env.OVERLAY_FONT_FILE
+
+export const overlayTemplateNames = () => Object.keys(OVERLAY_TEMPLATES)
+
+/**
+ * Placeholder values for a clip. Times are local to the region, using the
+ * same timezone rules as the LOG parser.
+ */
+export function overlayValues({
+  channel,
+  region,
+  startTime,
+  endTime,
+  program,
+  brand,
+}: OverlayDetails): Record<string, string> {
+  const start = formatLocalTime(startTime, region)
+  const end = formatLocalTime(endTime, region)
+  return {
+    channel: getChannel(channel)?.name ?? channel,
+    channelCode: channel,
+    region: getRegion(region)?.name ?? region,
+    regionCode: region,
+    date: start.date,
+    time: start.time,
+    zone: start.zone,
+    endDate: end.date,
+    endTime: end.time,
+    endZone: end.zone,
+    program,
+    brand: brand ?? "",
+  }
+}
+
+/**
+ * Fill a template's lines for a clip. Lines left empty (e.g. {brand} with no
+ * brand) are dropped.
+ */
+export function resolveOverlay(
+  templateName: string,
+  values: Record<string, string>,
+  logo: string | null,
+): ResolvedOverlay {
+  const template = OVERLAY_TEMPLATES[templateName]
+  if (!template) {
+    throw new Error(`Unknown overlay template: ${templateName}`)
+  }
+  const lines = template.lines
+    .map(({ text, position }) => ({
+      text: text
+        .replace(/\{(\w+)\}/g, (placeholder, key) => values[key] ?? placeholder)
+        .trim(),
+      position,
+    }))
+    .filter(({ text }) => text !== "")
+  return {
+    name: templateName,
+    template,
+    lines,
+    logo: template.logo ? logo : null,
+  }
+}
+
+// Escape a value for a filter option inside a filtergraph: once for the
+// option parser, then again for the graph parser
+const escapeFilterValue = (value: string) =>
+  value.replace(/[\\':]/g, "\\$&").replace(/[\\'[\],;]/g, "\\$&")
+
+// Filtergraph link labels (without brackets) for an overlay
+interface OverlayLabels {
+  input: string
+  logo: string | null // The logo input's video stream, e.g. "1:v"
+  output: string
+}
+
+/**
+ * Filters that burn the overlay into a video of the given size, from the
+ * input label to the output label
+ */
+export function overlayGraph(
+  { template, lines }: ResolvedOverlay,
+  { width, height }: { width: number; height: number },
+  labels: OverlayLabels,
+): string {
+  const shorterSide = Math.min(width, height)
+  const fontSize = Math.round(template.fontSize * shorterSide)
+  const margin = Math.round(template.margin * shorterSide)
+  const padding = Math.max(2, Math.round(fontSize / 4))
+  const lineHeight = fontSize + padding * 3
+
+  const drawtext = lines.map(({ text, position }, index) => {
+    // Position among the lines in the same corner
+    const corner = lines.filter((line) => line.position === position)
+    const slot = corner.indexOf(lines[index])
+    const x = position.endsWith("left")
+      ? `${margin + padding}`
+      : `w-tw-${margin + padding}`
+    const y = position.startsWith("top")
+      ? `${margin + padding + slot * lineHeight}`
+      : `h-th-${margin + padding + (corner.length - 1 - slot) * lineHeight}`
+    return [
+      "drawtext=expansion=none",
+      ...(OVERLAY_FONT_FILE
+        ? [`fontfile=${escapeFilterValue(OVERLAY_FONT_FILE)}`]
+        : []),
+      `text=${escapeFilterValue(text)}`,
+      `fontsize=${fontSize}`,
+      `fontcolor=${template.fontColor}`,
+      "box=1",
+      `boxcolor=${template.boxColor}`,
+      `boxborderw=${padding}`,
+      `x=${x}`,
+      `y=${y}`,
+    ].join(":")
+  })
+
+  const text = drawtext.length > 0 ? drawtext.join(",") : "null"
+  if (!labels.logo || !template.logo) {
+    return `[${labels.input}]${text}[${labels.output}]`
+  }
+
+  const { position } = template.logo
+  const logoWidth = Math.round((template.logo.width * width) / 2) * 2
+  const x = position.endsWith("left") ? `${margin}` : `W-w-${margin}`
+  const y = position.startsWith("top") ? `${margin}` : `H-h-${margin}`
+  return [
+    `[${labels.input}]${text}[${labels.output}_text]`,
+    `[${labels.logo}]scale=${logoWidth}:-1[${labels.output}_logo]`,
+    `[${labels.output}_text][${labels.output}_logo]overlay=x=${x}:y=${y}[${labels.output}]`,
+  ].join(";")
+}
+
+export interface LogoLoader {
+  load(image: string): Promise<string>
+  cleanup(): Promise<void>
+}
+
+/**
+ * Loads Brand.image logos as ffmpeg inputs, once each. URLs are read
+ * directly; S3 keys are downloaded to a temporary directory that `cleanup`
+ * removes.
+ */
+export function createLogoLoader(bucket: string): LogoLoader {
+  const loaded = new Map<string, Promise<string>>()
+  let tempDir: Promise<string> | null = null
+
+  const download = async (image: string) => {
+    // Numbered, as different keys can share a file name
+    const name = `${loaded.size}-${path.basename(image)}`
+    tempDir ||= fs.mkdtemp(path.join(os.tmpdir(), "logos-"))
+    const input = path.join(await tempDir, name)
+    await fs.writeFile(input, await getS3File(bucket, image))
+    return input
+  }
+
+  return {
+    load(image: string): Promise<string> {
+      if (/^https?:\/\//.test(image)) return Promise.resolve(image)
+      if (!loaded.has(image)) loaded.set(image, download(image))
+      return loaded.get(image)!
+    },
+    async cleanup() {
+      if (tempDir) await fs.rm(await tempDir, { recursive: true, force: true })
+    },
+  }
+}
+
+/**
+ * Overlay for a clip of an asset: where and when it aired, the program and
+ * the asset's brand
+ */
+export async function clipOverlay(
+  options: OverlayOptions,
+  details: Omit<OverlayDetails, "brand">,
+  brand: { name: string; image: string } | null,
+  logos: LogoLoader,
+): Promise<ResolvedOverlay> {
+  const logo =
+    brand?.image && options.logo !== false
+      ? await logos.load(brand.image)
+      : null
+  return resolveOverlay(
+    options.template ?? DEFAULT_OVERLAY_TEMPLATE,
+    overlayValues({ ...details, brand: brand?.name ?? null }),
+    logo,
+  )
+}
@@ -26,7 +26,8 @@ cat > package/package.json << EOF
 {
   "dependencies": {
     "@aws-sdk/client-s3": "^3.958.0",
-    "@prisma/client": "^6.2.0"
+    "@aws-sdk/lib-storage": "^3.958.0",
+    "@prisma/client": "^5.20.0"
   }
 }
 EOF
@@ -36,9 +37,9 @@ echo "📥 Installing production dependencies..."
 cd package
 npm install --production --no-package-lock
 
-# Generate Prisma Client
+# Generate Prisma Client, with the same Prisma version as the other functions
 echo "🔨 Generating Prisma Client..."
-npx prisma generate
+npx prisma@^5.20.0 generate
 
 # Remove package.json and unnecessary files
 rm package.json
@@ -0,0 +1,379 @@
+import { outputPipe } from "./ffmpeg"
+import { overlayGraph, ResolvedOverlay } from "./overlay"
+
+export const CONTAINERS = ["mp4", "webm", "mp3", "aac"] as const
+export const VIDEO_CODECS = ["h264", "vp9"] as const
+export const ASPECTS = ["16:9", "9:16", "1:1", "4:5"] as const
+
+export type Container = (typeof CONTAINERS)[number]
+export type VideoCodec = (typeof VIDEO_CODECS)[number]
+export type Aspect = (typeof ASPECTS)[number]
+
+// An encoded output of a clip
+export interface OutputProfile {
+  name: string // Used in the S3 key; unique within a request
+  container: Container
+  height: number | null // Output height; null for audio-only containers
+  aspect: Aspect // Centre crop of the 16:9 source
+  videoCodec: VideoCodec | null
+  videoBitrate: string | null // e.g. "4M"; null for constant quality
+  audioBitrate: string // e.g. "128k"
+}
+
+// An output as requested: a preset, a custom profile, or a preset with
+// overrides
+export interface OutputSpec {
+  preset?: PresetName
+  name?: string
+  container?: Container
+  height?: number
+  aspect?: Aspect
+  videoCodec?: VideoCodec
+  videoBitrate?: string
+  audioBitrate?: string
+}
+
+export const PRESETS = {
+  // The clip create-clip has always made
+  default: {
+    name: "default",
+    container: "mp4",
+    height: 720,
+    aspect: "16:9",
+    videoCodec: "h264",
+    videoBitrate: null,
+    audioBitrate: "128k",
+  },
+  "master-1080p": {
+    name: "master-1080p",
+    container: "mp4",
+    height: 1080,
+    aspect: "16:9",
+    videoCodec: "h264",
+    videoBitrate: "8M",
+    audioBitrate: "192k",
+  },
+  // Cropped from the 1080p source at full height (608x1080), not scaled up
+  "social-9x16": {
+    name: "social-9x16",
+    container: "mp4",
+    height: 1080,
+    aspect: "9:16",
+    videoCodec: "h264",
+    videoBitrate: "6M",
+    audioBitrate: "128k",
+  },
+  "web-720p": {
+    name: "web-720p",
+    container: "webm",
+    height: 720,
+    aspect: "16:9",
+    videoCodec: "vp9",
+    videoBitrate: "2M",
+    audioBitrate: "128k",
+  },
+  "audio-mp3": {
+    name: "audio-mp3",
+    container: "mp3",
+    height: null,
+    aspect: "16:9",
+    videoCodec: null,
+    videoBitrate: null,
+    audioBitrate: "192k",
+  },
+  "audio-aac": {
+    name: "audio-aac",
+    container: "aac",
+    height: null,
+    aspect: "16:9",
+    videoCodec: null,
+    videoBitrate: null,
+    audioBitrate: "128k",
+  },
+} satisfies Record<string, OutputProfile>
+
+export type PresetName = keyof typeof PRESETS
+
+export const PRESET_NAMES = Object.keys(PRESETS) as PresetName[]
+
+// Renditions the HLS source offers; the smallest that covers every output is
+// requested
+const SOURCE_HEIGHTS = [720, 1080]
+
+const CONTAINER_OUTPUTS: Record<
+  Container,
+  {
+    format: string
+    extension: string
+    contentType: string
+    audioCodec: string // As recorded against the rendition
+    audioEncoder: string // ffmpeg encoder for it
+    videoCodec: VideoCodec | null // Default, and the only codec allowed
+  }
+> = {
+  mp4: {
+    format: "mp4",
+    extension: "mp4",
+    contentType: "video/mp4",
+    audioCodec: "aac",
+    audioEncoder: "aac",
+    videoCodec: "h264",
+  },
+  webm: {
+    format: "webm",
+    extension: "webm",
+    contentType: "video/webm",
+    audioCodec: "opus",
+    audioEncoder: "libopus",
+    videoCodec: "vp9",
+  },
+  mp3: {
+    format: "mp3",
+    extension: "mp3",
+    contentType: "audio/mpeg",
+    audioCodec: "mp3",
+    audioEncoder: "libmp3lame",
+    videoCodec: null,
+  },
+  // Raw AAC in ADTS frames, playable on its own
+  aac: {
+    format: "adts",
+    extension: "aac",
+    contentType: "audio/aac",
+    audioCodec: "aac",
+    audioEncoder: "aac",
+    videoCodec: null,
+  },
+}
+
+const ASPECT_RATIOS: Record<Aspect, number> = {
+  "16:9": 16 / 9,
+  "9:16": 9 / 16,
+  "1:1": 1,
+  "4:5": 4 / 5,
+}
+
+export const isAudioOnly = (profile: OutputProfile) =>
+  CONTAINER_OUTPUTS[profile.container].videoCodec === null
+
+/**
+ * Merge an output spec over its preset, filling codec and size from the
+ * container
+ */
+export function resolveProfile(spec: OutputSpec): OutputProfile {
+  const base: OutputProfile = spec.preset
+    ? PRESETS[spec.preset]
+    : PRESETS.default
+  const container = spec.container ?? base.container
+  const audioOnly = CONTAINER_OUTPUTS[container].videoCodec === null
+  return {
+    name: spec.name ?? spec.preset ?? base.name,
+    container,
+    height: audioOnly ? null : (spec.height ?? base.height ?? 720),
+    aspect: spec.aspect ?? base.aspect,
+    videoCodec: audioOnly
+      ? null
+      : (spec.videoCodec ?? CONTAINER_OUTPUTS[container].videoCodec),
+    videoBitrate: audioOnly ? null : (spec.videoBitrate ?? base.videoBitrate),
+    audioBitrate: spec.audioBitrate ?? base.audioBitrate,
+  }
+}
+
+/**
+ * Why a spec can't be encoded, or null if it can
+ */
+export function profileProblem(spec: OutputSpec): string | null {
+  if (!spec.preset && !spec.name) {
+    return "needs a preset or a name"
+  }
+  const container =
+    spec.container ?? PRESETS[spec.preset ?? "default"].container
+  const codec = CONTAINER_OUTPUTS[container].videoCodec
+  if (spec.videoCodec && spec.videoCodec !== codec) {
+    return codec
+      ? `${container} outputs use ${codec}, not ${spec.videoCodec}`
+      : `${container} outputs are audio-only`
+  }
+  return null
+}
+
+// Output width for a profile, rounded to the nearest even number for the
+// encoders
+export function outputSize(profile: OutputProfile) {
+  if (profile.height === null) return null
+  const width =
+    Math.round((profile.height * ASPECT_RATIOS[profile.aspect]) / 2) * 2
+  return { width, height: profile.height }
+}
+
+/**
+ * Source rendition to request from the stream for a set of outputs
+ */
+export function sourceHeight(profiles: OutputProfile[]): number {
+  // The crop keeps the full source height for portrait and square outputs,
+  // so the output height is what the source must cover
+  const needed = Math.max(0, ...profiles.map(({ height }) => height ?? 0))
+  return (
+    SOURCE_HEIGHTS.find((height) => height >= needed) ??
+    SOURCE_HEIGHTS[SOURCE_HEIGHTS.length - 1]
+  )
+}
+
+/**
+ * S3 key of a rendition. The default profile keeps the original
+ * videos/<timestamp>.mp4 key; others add their name, e.g.
+ * videos/<timestamp>.social-9x16.mp4
+ */
+export function renditionKey(baseKey: string, profile: OutputProfile): string {
+  const { extension } = CONTAINER_OUTPUTS[profile.container]
+  return profile.name === "default" && profile.container === "mp4"
+    ? `${baseKey}.${extension}`
+    : `${baseKey}.${profile.name}.${extension}`
+}
+
+export const contentType = (profile: OutputProfile) =>
+  CONTAINER_OUTPUTS[profile.container].contentType
+
+export const audioCodec = (profile: OutputProfile) =>
+  CONTAINER_OUTPUTS[profile.container].audioCodec
+
+// One output of a recording: a profile applied to part of the input window
+export interface RecordingOutput {
+  profile: OutputProfile
+  offset: number // Seconds into the input the output starts at
+  duration: number
+  overlay: ResolvedOverlay | null // Ignored by audio-only profiles
+}
+
+// Crop and scale from the 16:9 source to a profile's output size
+function sizeFilters(profile: OutputProfile): string {
+  const size = outputSize(profile)!
+  const [across, down] = profile.aspect.split(":")
+  return [
+    // Centre crop to the aspect, then scale to the output size
+    `crop='min(iw,ih*${across}/${down})':'min(ih,iw*${down}/${across})'`,
+    `scale=${size.width}:${size.height}`,
+    "setsar=1",
+  ].join(",")
+}
+
+// Encoder arguments for a profile's video
+function videoEncoderArgs(profile: OutputProfile): string[] {
+  const bitrate = profile.videoBitrate
+    ? [
+        "-b:v",
+        profile.videoBitrate,
+        "-maxrate",
+        profile.videoBitrate,
+        "-bufsize",
+        profile.videoBitrate,
+      ]
+    : []
+
+  const encoder =
+    profile.videoCodec === "vp9"
+      ? [
+          "-c:v",
+          "libvpx-vp9",
+          "-deadline",
+          "realtime",
+          "-cpu-used",
+          "8",
+          "-row-mt",
+          "1",
+          ...(profile.videoBitrate ? [] : ["-crf", "33", "-b:v", "0"]),
+        ]
+      : ["-c:v", "libx264", "-preset", "ultrafast", "-pix_fmt", "yuv420p"]
+
+  return [...encoder, ...bitrate]
+}
+
+/**
+ * Arguments to encode several outputs from one read of a stream, each written
+ * to its own pipe (see outputPipe) with progress reports on stderr. The
+ * stream is fetched once however many outputs, or clips, it feeds.
+ */
+export function recordingArgs(
+  input: string,
+  outputs: RecordingOutput[],
+): string[] {
+  const inputs = ["-i", input]
+  const videoOutputs = outputs.filter(({ profile }) => !isAudioOnly(profile))
+
+  // The source video is split once per video output, each of which is sized
+  // and (if it has one) overlaid on its own
+  const graph: string[] =
+    videoOutputs.length > 1
+      ? [
+          `[0:v]split=${videoOutputs.length}${videoOutputs
+            .map((_, index) => `[src${index}]`)
+            .join("")}`,
+        ]
+      : []
+  videoOutputs.forEach(({ profile, overlay }, index) => {
+    const source = videoOutputs.length > 1 ? `[src${index}]` : "[0:v]"
+    if (!overlay) {
+      graph.push(`${source}${sizeFilters(profile)}[v${index}]`)
+      return
+    }
+    let logo: string | null = null
+    if (overlay.logo) {
+      logo = `${inputs.length / 2}:v`
+      inputs.push("-i", overlay.logo)
+    }
+    graph.push(
+      `${source}${sizeFilters(profile)}[base${index}]`,
+      overlayGraph(overlay, outputSize(profile)!, {
+        input: `base${index}`,
+        logo,
+        output: `v${index}`,
+      }),
+    )
+  })
+
+  const outputArgs = outputs.flatMap((output, index) => {
+    const { profile, offset, duration } = output
+    const { format, audioEncoder } = CONTAINER_OUTPUTS[profile.container]
+    const video = videoOutputs.indexOf(output)
+    return [
+      ...(video === -1
+        ? ["-map", "0:a"]
+        : [
+            "-map",
+            `[v${video}]`,
+            "-map",
+            "0:a?",
+            ...videoEncoderArgs(profile),
+          ]),
+      "-ss",
+      String(offset),
+      "-t",
+      String(duration),
+      "-c:a",
+      audioEncoder,
+      "-b:a",
+      profile.audioBitrate,
+      // Pipes can't be seeked back to write the index at the end, so write a
+      // fragmented MP4 with the index up front
+      ...(format === "mp4"
+        ? ["-movflags", "frag_keyframe+empty_moov+default_base_moof"]
+        : []),
+      "-f",
+      format,
+      outputPipe(index),
+    ]
+  })
+
+  return [
+    "-hide_banner",
+    "-nostdin",
+    "-loglevel",
+    "error",
+    "-nostats",
+    "-progress",
+    "pipe:2",
+    ...inputs,
+    ...(graph.length > 0 ? ["-filter_complex", graph.join(";")] : []),
+    ...outputArgs,
+  ]
+}
@@ -0,0 +1,182 @@
+import ffmpeg from "@ffmpeg-installer/ffmpeg"
+import { execFile } from "child_process"
+import { mkdtemp, readFile, rm } from "fs/promises"
+import { createServer, Server } from "http"
+import { AddressInfo } from "net"
+import { tmpdir } from "os"
+import path from "path"
+import { promisify } from "util"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { PRESETS } from "./profiles"
+import { ClipOutput, RECORDING_MAX_OUTPUTS, recordWindow } from "./recording"
+
+// Length of the HLS fixture, in two-second segments
+const FIXTURE_SECONDS = 6
+
+interface StoredObject {
+  body: Buffer
+  contentType: string | undefined
+}
+
+const listen = async (server: Server) => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
+
+const close = (server: Server) =>
+  new Promise<void>((resolve) => server.close(() => resolve()))
+
+// HLS server for the fixture directory, ignoring the start and end the CDN
+// takes in the query string
+function hlsServer(directory: string): Server {
+  return createServer(async (request, response) => {
+    const name = path.basename(new URL(request.url!, "http://hls").pathname)
+    try {
+      response.end(await readFile(path.join(directory, name)))
+    } catch {
+      response.statusCode = 404
+      response.end()
+    }
+  })
+}
+
+// Just enough of S3 for single-part uploads: PutObject keeps the body in
+// `objects`, keyed by bucket and key
+function s3Server(objects: Map<string, StoredObject>): Server {
+  return createServer((request, response) => {
+    const chunks: Buffer[] = []
+    request.on("data", (chunk: Buffer) => chunks.push(chunk))
+    request.on("end", () => {
+      const { pathname, searchParams } = new URL(request.url!, "http://s3")
+      if (request.method !== "PUT" || searchParams.has("uploadId")) {
+        response.statusCode = 501
+        return response.end()
+      }
+      objects.set(decodeURIComponent(pathname.slice(1)), {
+        body: Buffer.concat(chunks),
+        contentType: request.headers["content-type"],
+      })
+      response.setHeader("ETag", '"fixture"')
+      response.end()
+    })
+  })
+}
+
+describe("recordWindow", () => {
+  const objects = new Map<string, StoredObject>()
+  let fixtureDirectory: string
+  let hls: Server
+  let s3: Server
+  let streamUrl: string
+
+  beforeAll(async () => {
+    // Test pattern and tone, cut into an HLS playlist like the CDN's
+    fixtureDirectory = await mkdtemp(path.join(tmpdir(), "hls-"))
+    await promisify(execFile)(ffmpeg.path, [
+      ...["-f", "lavfi", "-i", "testsrc=size=640x360:rate=25"],
+      ...["-f", "lavfi", "-i", "sine=frequency=440"],
+      ...["-t", String(FIXTURE_SECONDS)],
+      ...["-c:v", "libx264", "-preset", "ultrafast", "-pix_fmt", "yuv420p"],
+      ...["-c:a", "aac", "-g", "50"],
+      ...["-f", "hls", "-hls_time", "2", "-hls_playlist_type", "vod"],
+      path.join(fixtureDirectory, "index.m3u8"),
+    ])
+
+    hls = hlsServer(fixtureDirectory)
+    s3 = s3Server(objects)
+    streamUrl = `${await listen(hls)}/index.m3u8?start=0&end=${FIXTURE_SECONDS}`
+
+    vi.stubEnv("FFMPEG_PATH", ffmpeg.path)
+    vi.stubEnv("S3_ENDPOINT", await listen(s3))
+    vi.stubEnv("S3_BUCKET", "clips")
+    vi.stubEnv("AWS_REGION", "ap-southeast-2")
+    vi.stubEnv("AWS_ACCESS_KEY_ID", "test")
+    vi.stubEnv("AWS_SECRET_ACCESS_KEY", "test")
+  }, 60_000)
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    await Promise.all([hls && close(hls), s3 && close(s3)])
+    await rm(fixtureDirectory, { recursive: true, force: true })
+  })
+
+  it("uploads every output from one read of the stream", async () => {
+    const outputs: ClipOutput[] = [
+      {
+        profile: PRESETS.default,
+        offset: 1,
+        duration: 2,
+        overlay: null,
+        s3Key: "videos/first.mp4",
+      },
+      {
+        profile: PRESETS.default,
+        offset: 3,
+        duration: 2,
+        overlay: null,
+        s3Key: "videos/second.mp4",
+      },
+      {
+        profile: PRESETS["audio-mp3"],
+        offset: 1,
+        duration: 2,
+        overlay: null,
+        s3Key: "videos/first.mp3",
+      },
+    ]
+
+    const renditions = await recordWindow(streamUrl, FIXTURE_SECONDS, outputs)
+
+    expect(renditions.map(({ s3Key }) => s3Key)).toEqual(
+      outputs.map(({ s3Key }) => s3Key),
+    )
+    for (const { s3Key, bytes } of renditions) {
+      const stored = objects.get(`clips/${s3Key}`)
+      expect(stored?.body.length).toBe(bytes)
+      expect(bytes).toBeGreaterThan(0)
+    }
+    const video = objects.get("clips/videos/first.mp4")!
+    expect(video.contentType).toBe("video/mp4")
+    // Fragmented MP4 starts with its ftyp box
+    expect(video.body.subarray(4, 8).toString()).toBe("ftyp")
+    expect(objects.get("clips/videos/first.mp3")!.contentType).toBe(
+      "audio/mpeg",
+    )
+  }, 60_000)
+
+  it("refuses more outputs than one recording may encode", async () => {
+    const outputs: ClipOutput[] = Array.from(
+      { length: RECORDING_MAX_OUTPUTS + 1 },
+      (_, index) => ({
+        profile: PRESETS["audio-mp3"],
+        offset: 0,
+        duration: 1,
+        overlay: null,
+        s3Key: `videos/capped-${index}.mp3`,
+      }),
+    )
+
+    await expect(
+      recordWindow(streamUrl, FIXTURE_SECONDS, outputs),
+    ).rejects.toThrow(`at most ${RECORDING_MAX_OUTPUTS} are allowed`)
+    expect(objects.has("clips/videos/capped-0.mp3")).toBe(false)
+  })
+
+  it("fails without uploading when the stream can't be read", async () => {
+    const missing = streamUrl.replace("index.m3u8", "missing.m3u8")
+    const outputs: ClipOutput[] = [
+      {
+        profile: PRESETS.default,
+        offset: 0,
+        duration: 2,
+        overlay: null,
+        s3Key: "videos/missing.mp4",
+      },
+    ]
+
+    await expect(
+      recordWindow(missing, FIXTURE_SECONDS, outputs),
+    ).rejects.toThrow("FFmpeg failed")
+    expect(objects.has("clips/videos/missing.mp4")).toBe(false)
+  }, 60_000)
+})
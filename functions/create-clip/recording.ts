@@ -0,0 +1,137 @@
+import { uploadS3Stream } from "../shared/s3"
+import { runFfmpeg } from "./ffmpeg"
+import {
+  audioCodec,
+  contentType,
+  isAudioOnly,
+  OutputProfile,
+  outputSize,
+  recordingArgs,
+  RecordingOutput,
+} from "./profiles"
+
+// Longest a recording may take; the Lambda timeout must allow for it
+const FFMPEG_TIMEOUT_MS = parseInt(process.env.FFMPEG_TIMEOUT_MS || "300000")
+
+// Progress is logged at most this often, plus once at the end
+const PROGRESS_LOG_INTERVAL_MS = 5000
+
+// Most outputs one recording encodes. ffmpeg writes them all as it reads, so
+// each is an open pipe and an upload in flight (holding up to two parts in
+// memory) for the whole recording.
+export const RECORDING_MAX_OUTPUTS = parseInt(
+  process.env.RECORDING_MAX_OUTPUTS || "8",
+)
+
+export interface ClipOutput extends RecordingOutput {
+  s3Key: string
+}
+
+export interface Rendition {
+  profile: OutputProfile
+  s3Key: string
+  bytes: number
+  overlay: string | null // Overlay template burned in, if any
+}
+
+/**
+ * Read `windowSeconds` of the stream once, encoding every output from it and
+ * streaming each to S3 as it's encoded
+ */
+export async function recordWindow(
+  streamUrl: string,
+  windowSeconds: number,
+  outputs: ClipOutput[],
+): Promise<Rendition[]> {
+  if (outputs.length > RECORDING_MAX_OUTPUTS) {
+    throw new Error(
+      `Recording has ${outputs.length} outputs; at most ${RECORDING_MAX_OUTPUTS} are allowed`,
+    )
+  }
+  const args = recordingArgs(streamUrl, outputs)
+  console.log(
+    `🎬 Recording ${windowSeconds}s window to ${outputs.map(({ s3Key }) => s3Key).join(", ")}: ffmpeg ${args.join(" ")}`,
+  )
+
+  let lastProgressLog = 0
+  const ffmpeg = runFfmpeg(args, {
+    timeoutMs: FFMPEG_TIMEOUT_MS,
+    outputs: outputs.length,
+    onProgress: (progress) => {
+      const now = Date.now()
+      if (!progress.done && now - lastProgressLog < PROGRESS_LOG_INTERVAL_MS) {
+        return
+      }
+      lastProgressLog = now
+      console.log(
+        JSON.stringify({
+          message: "ffmpeg progress",
+          s3Keys: outputs.map(({ s3Key }) => s3Key),
+          percent: Math.min(
+            100,
+            Math.round((progress.outTimeSeconds / windowSeconds) * 100),
+          ),
+          ...progress,
+        }),
+      )
+    },
+  })
+
+  // Every output uploads at once: ffmpeg writes them all as it reads
+  const [renditions] = await Promise.all([
+    Promise.all(
+      outputs.map(async ({ profile, s3Key, overlay }, index) => {
+        const output = ffmpeg.outputs[index]
+        const bytes = await uploadS3Stream(
+          process.env.S3_BUCKET!,
+          s3Key,
+          output,
+          contentType(profile),
+        ).catch((error) => {
+          // Stops ffmpeg, which aborts the other outputs' uploads too
+          output.destroy(error)
+          throw error
+        })
+        if (bytes === 0) {
+          throw new Error(`FFmpeg produced no output for ${s3Key}`)
+        }
+        console.log(`✅ Uploaded ${bytes} bytes to ${s3Key}`)
+        return {
+          profile,
+          s3Key,
+          bytes,
+          overlay: overlay && !isAudioOnly(profile) ? overlay.name : null,
+        }
+      }),
+    ),
+    ffmpeg.finished,
+  ])
+  return renditions
+}
+
+/**
+ * DetectionRendition fields for a rendition
+ */
+export const renditionData = ({
+  profile,
+  s3Key,
+  bytes,
+  overlay,
+}: Rendition) => ({
+  profile: profile.name,
+  s3Key,
+  container: profile.container,
+  contentType: contentType(profile),
+  width: outputSize(profile)?.width ?? null,
+  height: outputSize(profile)?.height ?? null,
+  videoCodec: profile.videoCodec,
+  audioCodec: audioCodec(profile),
+  bytes,
+  overlay,
+})
+
+/**
+ * The detection's video: its first video rendition, if any
+ */
+export const primaryVideo = (renditions: Rendition[]) =>
+  renditions.find(({ profile }) => !isAudioOnly(profile))?.s3Key ?? null
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+import { detectionStillTiming } from "./stills"
+
+describe("detectionStillTiming", () => {
+  const detection = {
+    startTime: new Date("2026-01-04T07:00:10.000Z"),
+    endTime: new Date("2026-01-04T07:00:20.000Z"),
+  }
+
+  it("centres on the detection inside a padded batch clip", () => {
+    expect(
+      detectionStillTiming({
+        ...detection,
+        clipStartTime: new Date("2026-01-04T07:00:00.000Z"),
+        clipEndTime: new Date("2026-01-04T07:00:25.000Z"),
+      }),
+    ).toEqual({ centreSeconds: 15, durationSeconds: 25 })
+  })
+
+  it("takes a video without a stored window to cover the detection", () => {
+    expect(
+      detectionStillTiming({
+        ...detection,
+        clipStartTime: null,
+        clipEndTime: null,
+      }),
+    ).toEqual({ centreSeconds: 5, durationSeconds: 10 })
+  })
+})
@@ -0,0 +1,210 @@
+import { logError } from "../shared/logging"
+import { getS3FileStream, uploadS3Stream } from "../shared/s3"
+import { runFfmpeg } from "./ffmpeg"
+
+export const PREVIEW_FORMATS = ["contact-sheet", "gif"] as const
+
+export type PreviewFormat = (typeof PREVIEW_FORMATS)[number]
+
+// Stills and previews come from a clip already in S3, so are quick to make
+const STILL_TIMEOUT_MS = 60 * 1000
+
+// Frames in a contact sheet (one row) or GIF strip, spread across the clip
+const PREVIEW_FRAMES = 6
+const PREVIEW_WIDTH = 320
+const GIF_FRAMES_PER_SECOND = 2
+
+export interface ClipStills {
+  still: string // S3 key of the still
+  preview: string | null // S3 key of the contact sheet or GIF, if requested
+}
+
+interface StillOptions {
+  bucket: string
+  videoKey: string
+  centreSeconds: number // Offset of the moment the clip was made for
+  durationSeconds: number
+  preview?: PreviewFormat
+}
+
+const PREVIEW_OUTPUTS: Record<
+  PreviewFormat,
+  { suffix: string; contentType: string }
+> = {
+  "contact-sheet": { suffix: "-contact-sheet.jpg", contentType: "image/jpeg" },
+  gif: { suffix: ".gif", contentType: "image/gif" },
+}
+
+// A detection's times and the window its video covers, if recorded
+interface DetectionClip {
+  startTime: Date
+  endTime: Date
+  clipStartTime: Date | null
+  clipEndTime: Date | null
+}
+
+/**
+ * Where a detection's still goes in its video: the middle of the detection,
+ * measured from the start of the (possibly padded) clip. Videos recorded
+ * before clip windows were stored are taken to cover just the detection.
+ */
+export function detectionStillTiming({
+  startTime,
+  endTime,
+  clipStartTime,
+  clipEndTime,
+}: DetectionClip): Pick<StillOptions, "centreSeconds" | "durationSeconds"> {
+  const clipStart = (clipStartTime ?? startTime).getTime()
+  const clipEnd = (clipEndTime ?? endTime).getTime()
+  const middle = (startTime.getTime() + endTime.getTime()) / 2
+  return {
+    centreSeconds: (middle - clipStart) / 1000,
+    durationSeconds: (clipEnd - clipStart) / 1000,
+  }
+}
+
+// Key next to the video, e.g. videos/<timestamp>.mp4 -> videos/<timestamp>.jpg
+export const siblingKey = (videoKey: string, suffix: string) =>
+  videoKey.replace(/\.[^./]+$/, "") + suffix
+
+/**
+ * Arguments for a JPEG of the frame at `offsetSeconds` into the input on stdin
+ */
+export function stillArgs(offsetSeconds: number): string[] {
+  return [
+    "-hide_banner",
+    "-loglevel",
+    "error",
+    "-i",
+    "pipe:0",
+    // After -i, so the seek lands on the exact frame rather than a keyframe
+    "-ss",
+    offsetSeconds.toFixed(3),
+    "-frames:v",
+    "1",
+    "-q:v",
+    "2",
+    "-f",
+    "image2",
+    "-c:v",
+    "mjpeg",
+    "pipe:1",
+  ]
+}
+
+/**
+ * Arguments for a preview strip of frames spread across the input on stdin
+ */
+export function previewArgs(
+  format: PreviewFormat,
+  durationSeconds: number,
+): string[] {
+  const sample = `fps=${PREVIEW_FRAMES}/${Math.max(durationSeconds, 1)},scale=${PREVIEW_WIDTH}:-2`
+  const output =
+    format === "contact-sheet"
+      ? [
+          "-vf",
+          `${sample},tile=${PREVIEW_FRAMES}x1`,
+          "-frames:v",
+          "1",
+          "-q:v",
+          "4",
+          "-f",
+          "image2",
+          "-c:v",
+          "mjpeg",
+        ]
+      : [
+          "-filter_complex",
+          // Replay the sampled frames at a steady rate, with a palette built
+          // from the frames themselves
+          `${sample},setpts=N/${GIF_FRAMES_PER_SECOND}/TB,split[frames][copy];[copy]palettegen[palette];[frames][palette]paletteuse`,
+          "-f",
+          "gif",
+        ]
+  return [
+    "-hide_banner",
+    "-loglevel",
+    "error",
+    "-i",
+    "pipe:0",
+    "-an",
+    ...output,
+    "pipe:1",
+  ]
+}
+
+// Run ffmpeg over the stored video and upload what it writes
+async function renderFromVideo(
+  bucket: string,
+  videoKey: string,
+  args: string[],
+  key: string,
+  contentType: string,
+): Promise<void> {
+  const ffmpeg = runFfmpeg(args, {
+    timeoutMs: STILL_TIMEOUT_MS,
+    input: await getS3FileStream(bucket, videoKey),
+  })
+  const [uploadedBytes] = await Promise.all([
+    uploadS3Stream(bucket, key, ffmpeg.output, contentType),
+    ffmpeg.finished,
+  ])
+  if (uploadedBytes === 0) {
+    throw new Error(`FFmpeg produced no output for ${key}`)
+  }
+}
+
+/**
+ * Extract a still at the clip's centre, plus an optional preview strip, from
+ * a video in S3 and upload them next to it
+ */
+export async function createStills({
+  bucket,
+  videoKey,
+  centreSeconds,
+  durationSeconds,
+  preview,
+}: StillOptions): Promise<ClipStills> {
+  const still = siblingKey(videoKey, ".jpg")
+  // Keep the seek inside the clip, which may be shorter than recorded
+  const offset = Math.max(0, Math.min(centreSeconds, durationSeconds - 0.1))
+  await renderFromVideo(
+    bucket,
+    videoKey,
+    stillArgs(offset),
+    still,
+    "image/jpeg",
+  )
+  console.log(`🖼️  Still for ${videoKey} at ${offset}s: ${still}`)
+
+  if (!preview) return { still, preview: null }
+
+  const { suffix, contentType } = PREVIEW_OUTPUTS[preview]
+  const previewKey = siblingKey(videoKey, suffix)
+  await renderFromVideo(
+    bucket,
+    videoKey,
+    previewArgs(preview, durationSeconds),
+    previewKey,
+    contentType,
+  )
+  console.log(`🖼️  ${preview} preview for ${videoKey}: ${previewKey}`)
+
+  return { still, preview: previewKey }
+}
+
+/**
+ * Stills for a newly recorded clip. A clip without a still is still usable,
+ * and the backfill can add one later, so failures are logged, not thrown.
+ */
+export async function tryCreateStills(
+  options: StillOptions,
+): Promise<ClipStills | null> {
+  try {
+    return await createStills(options)
+  } catch (error) {
+    logError(`Still for ${options.videoKey} failed`, error)
+    return null
+  }
+}
@@ -0,0 +1,275 @@
+import { Broadcast, BroadcastStatus, Day } from "@prisma/client"
+import { describe, expect, it } from "vitest"
+import { dayDateFor } from "../shared/broadcastDay"
+import { buildBroadcastPlan, PlanProgram } from "./broadcastPlan"
+import { LogEntry, ParsedLogData } from "./logParser"
+
+const fileDate = dayDateFor(2026, 1, 4)
+
+const news: PlanProgram = {
+  id: "program-news",
+  name: "News",
+  keyword: "NEWS",
+  matchRules: [],
+}
+const sport: PlanProgram = {
+  id: "program-sport",
+  name: "Sport",
+  keyword: "SPORT",
+  matchRules: [],
+}
+
+// A timed program entry, in UTC
+function programEntry(
+  lineNumber: number,
+  databaseTitle: string,
+  start: string,
+  end: string
+): LogEntry {
+  return {
+    lineNumber,
+    marketChannel: "SYDCH9",
+    dateTime: start,
+    localDateTime: null,
+    time: start.slice(11, 19),
+    frames: 0,
+    duration: null,
+    durationSeconds: null,
+    endDateTime: end,
+    materialKey: `KEY${lineNumber}`,
+    materialType: "M",
+    databaseTitle,
+    isBillboard: false,
+    billboardType: null,
+  }
+}
+
+function parsedLog(
+  programs: LogEntry[],
+  billboards: LogEntry[] = []
+): ParsedLogData {
+  return {
+    billboards,
+    programs,
+    layout: "as-run",
+    rejectedCount: 0,
+    rejectedLines: [],
+  }
+}
+
+function broadcast(
+  id: string,
+  dayId: string,
+  start: string,
+  end: string,
+  status: BroadcastStatus = BroadcastStatus.PENDING
+): Broadcast {
+  return {
+    id,
+    name: id,
+    createdAt: new Date(0),
+    startTime: new Date(start),
+    endTime: new Date(end),
+    integrationStatus: status,
+    billboardStatus: status,
+    lastScheduledAt: null,
+    channel: "CH9",
+    region: "SYD",
+    dayId,
+  }
+}
+
+// Just the reads buildBroadcastPlan makes, over fixed days and broadcasts
+function fakeDb(days: Day[], broadcasts: Broadcast[]) {
+  return {
+    day: {
+      findFirst: async ({ where }: any) =>
+        days.find(
+          (day) =>
+            day.programId === where.programId &&
+            day.date.getTime() === where.date.getTime()
+        ) ?? null,
+    },
+    broadcast: {
+      findMany: async ({ where }: any) =>
+        broadcasts.filter(
+          (broadcast) =>
+            broadcast.dayId === where.dayId &&
+            broadcast.channel === where.channel &&
+            broadcast.region === where.region &&
+            broadcast.startTime <= where.startTime.lte &&
+            broadcast.endTime > where.endTime.gt
+        ),
+      findFirst: async () => null,
+    },
+    logFile: { findUnique: async () => null },
+  } as any
+}
+
+const day = (id: string, program: PlanProgram): Day =>
+  ({
+    id,
+    name: `${program.name} - 4 January 2026`,
+    date: fileDate,
+    programId: program.id,
+    billboardConfigId: null,
+    analysisBudget: null,
+  }) as Day
+
+describe("buildBroadcastPlan reconciliation", () => {
+  // 18:00-19:00 AEDT
+  const log = parsedLog([
+    programEntry(
+      1,
+      "NEWS",
+      "2026-01-04T07:00:00.000Z",
+      "2026-01-04T08:00:00.000Z"
+    ),
+  ])
+  const metadata = { date: fileDate, region: "SYD", channel: "CH9" }
+
+  it("deletes PENDING broadcasts of a program the corrected log dropped", async () => {
+    const db = fakeDb(
+      [day("day-news", news), day("day-sport", sport)],
+      [
+        broadcast(
+          "news",
+          "day-news",
+          "2026-01-04T07:00:00.000Z",
+          "2026-01-04T08:00:00.000Z"
+        ),
+        broadcast(
+          "sport",
+          "day-sport",
+          "2026-01-04T07:30:00.000Z",
+          "2026-01-04T07:45:00.000Z"
+        ),
+        // Outside the time the log covers
+        broadcast(
+          "sport-morning",
+          "day-sport",
+          "2026-01-03T22:00:00.000Z",
+          "2026-01-03T23:00:00.000Z"
+        ),
+      ]
+    )
+
+    const plan = await buildBroadcastPlan(
+      db,
+      "log",
+      metadata,
+      log,
+      [news, sport],
+      {
+        reconcile: true,
+      }
+    )
+
+    expect(
+      plan.broadcastsToDelete.map(({ broadcastId }) => broadcastId)
+    ).toEqual(["sport"])
+    expect(plan.broadcastsToUpdate).toEqual([])
+    expect(plan.daysToCreate).toEqual([])
+  })
+
+  it("keeps the times of analysed broadcasts", async () => {
+    const db = fakeDb(
+      [day("day-news", news)],
+      [
+        broadcast(
+          "news",
+          "day-news",
+          "2026-01-04T07:05:00.000Z",
+          "2026-01-04T08:00:00.000Z",
+          BroadcastStatus.ANALYSIS_COMPLETED
+        ),
+      ]
+    )
+
+    const plan = await buildBroadcastPlan(db, "log", metadata, log, [news], {
+      reconcile: true,
+    })
+
+    expect(plan.broadcastsToUpdate).toEqual([])
+    expect(plan.updatesKept).toEqual([
+      {
+        broadcastId: "news",
+        name: "news",
+        before: {
+          startTime: new Date("2026-01-04T07:05:00.000Z"),
+          endTime: new Date("2026-01-04T08:00:00.000Z"),
+        },
+        after: {
+          startTime: new Date("2026-01-04T07:00:00.000Z"),
+          endTime: new Date("2026-01-04T08:00:00.000Z"),
+        },
+      },
+    ])
+  })
+
+  it("leaves other programs alone without reconcile", async () => {
+    const db = fakeDb(
+      [day("day-news", news), day("day-sport", sport)],
+      [
+        broadcast(
+          "sport",
+          "day-sport",
+          "2026-01-04T07:30:00.000Z",
+          "2026-01-04T07:45:00.000Z"
+        ),
+      ]
+    )
+
+    const plan = await buildBroadcastPlan(db, "log", metadata, log, [
+      news,
+      sport,
+    ])
+
+    expect(plan.broadcastsToDelete).toEqual([])
+  })
+})
+
+describe("buildBroadcastPlan billboards", () => {
+  it("ends a billboard without a duration at the next program entry", async () => {
+    const billboard: LogEntry = {
+      ...programEntry(2, "OB ACME NEWS", "2026-01-04T07:10:00.000Z", ""),
+      endDateTime: null,
+      materialType: "I",
+      isBillboard: true,
+      billboardType: "Open Billboard",
+    }
+    const log = parsedLog(
+      [
+        programEntry(
+          1,
+          "NEWS",
+          "2026-01-04T07:00:00.000Z",
+          "2026-01-04T07:10:00.000Z"
+        ),
+        programEntry(
+          3,
+          "NEWS",
+          "2026-01-04T07:10:15.000Z",
+          "2026-01-04T08:00:00.000Z"
+        ),
+      ],
+      [billboard]
+    )
+
+    const plan = await buildBroadcastPlan(
+      fakeDb([], []),
+      "log",
+      { date: fileDate, region: "SYD", channel: "CH9" },
+      log,
+      [news]
+    )
+
+    expect(plan.billboardsToCreate).toMatchObject([
+      {
+        title: "OB ACME NEWS",
+        startTime: new Date("2026-01-04T07:10:00.000Z"),
+        endTime: new Date("2026-01-04T07:10:15.000Z"),
+      },
+    ])
+  })
+})
@@ -0,0 +1,1293 @@
+import {
+  Prisma,
+  PrismaClient,
+  BroadcastStatus,
+  BroadcastChange,
+  Broadcast,
+  BillboardConfigAsset,
+} from "@prisma/client"
+import { LogEntry, ParsedLogData } from "./logParser"
+import { createProgramMatcher, EntryMatcher, MatchRule } from "./programMatcher"
+import { getBroadcastDay } from "../shared/broadcastDay"
+import { getRegion } from "../shared/markets"
+
+// Works with the shared client or an interactive transaction
+type Db = PrismaClient | Prisma.TransactionClient
+
+// Fallback billboard length when the log has no following entry to end it
+const DEFAULT_BILLBOARD_SECONDS = 10
+
+// Allow 30-minute gaps for ad breaks within one broadcast
+const MAX_GAP_MINUTES = 30
+
+export interface LogFileMetadata {
+  date: Date
+  region: string // Region code from the market catalogue
+  channel: string // Channel code from the market catalogue
+}
+
+export interface PlanProgram {
+  id: string
+  name: string
+  keyword: string
+  matchRules: MatchRule[]
+}
+
+export interface PlannedDay {
+  ref: string // Stable reference used by the rest of the plan
+  id: string | null // Existing Day id, null when the day will be created
+  programId: string
+  programName: string
+  name: string
+  date: Date
+  billboardConfigId: string | null
+}
+
+export interface PlannedBroadcast {
+  ref: string
+  dayRef: string
+  programName: string
+  name: string
+  startTime: Date
+  endTime: Date
+  channel: string
+  region: string
+  splitFrom: string | null // Existing broadcast this was split out of
+}
+
+export interface BroadcastTimes {
+  startTime: Date
+  endTime: Date
+}
+
+export interface BroadcastUpdate {
+  broadcastId: string
+  name: string
+  before: BroadcastTimes
+  after: BroadcastTimes
+}
+
+export interface BroadcastMerge {
+  broadcastId: string
+  name: string
+  intoBroadcastId: string
+  startTime: Date
+  endTime: Date
+}
+
+export interface BroadcastRemoval {
+  broadcastId: string
+  name: string
+  startTime: Date
+  endTime: Date
+}
+
+export interface BroadcastPlanOptions {
+  // Reconcile existing broadcasts with the log instead of skipping overlaps
+  reconcile?: boolean
+}
+
+export interface SkippedBroadcast {
+  programName: string
+  name: string
+  startTime: Date
+  endTime: Date
+  // Existing row (or earlier planned broadcast, with a null id) it overlaps
+  conflict: {
+    id: string | null
+    name: string
+    startTime: Date
+    endTime: Date
+  }
+}
+
+export interface PlannedBillboard {
+  broadcastRef: string // Planned broadcast ref, or the existing broadcast id
+  broadcastId: string | null // Set when the broadcast already exists
+  title: string
+  startTime: Date
+  endTime: Date
+  billboardConfigAssetId: string | null
+}
+
+export interface PlannedLogFile {
+  s3Key: string
+  dayRef: string
+  region: string
+  channel: string
+  existing: boolean
+}
+
+export interface BroadcastPlan {
+  logFile: { key: string } & LogFileMetadata
+  days: PlannedDay[] // Every matched day, including ones that already exist
+  daysToCreate: PlannedDay[]
+  broadcastsToCreate: PlannedBroadcast[]
+  skippedBroadcasts: SkippedBroadcast[]
+  billboardsToCreate: PlannedBillboard[]
+  logFileLinks: PlannedLogFile[]
+  // Reconcile mode only
+  reconciled: boolean
+  broadcastsToUpdate: BroadcastUpdate[] // PENDING broadcasts only
+  updatesKept: BroadcastUpdate[] // Time changes skipped as already analysed
+  broadcastsToMerge: BroadcastMerge[] // PENDING broadcasts only
+  mergesKept: BroadcastMerge[] // Merges skipped as already analysed
+  broadcastsToDelete: BroadcastRemoval[] // Orphaned PENDING broadcasts
+  orphansKept: BroadcastRemoval[] // Orphaned broadcasts already analysed
+}
+
+export interface AppliedPlan {
+  daysCreated: number
+  broadcasts: Array<{
+    program: string
+    broadcast: string
+    startTime: Date
+    endTime: Date
+  }>
+  billboardsCreated: number
+  logFilesCreated: number
+  broadcastsUpdated: number
+  broadcastsMerged: number
+  broadcastsDeleted: number
+  broadcastsKept: number // Analysed broadcasts left unchanged
+}
+
+// A broadcast segment found in the log for one program
+interface LogSegment {
+  name: string
+  startTime: Date
+  endTime: Date
+}
+
+// Find the billboard config asset whose keystrings appear in the billboard's title or material key
+function matchBillboardConfigAsset(
+  billboard: LogEntry,
+  configAssets: BillboardConfigAsset[]
+): BillboardConfigAsset | null {
+  const title = billboard.databaseTitle.toUpperCase()
+  const materialKey = billboard.materialKey.toUpperCase()
+
+  for (const configAsset of configAssets) {
+    const matches = configAsset.keystrings.some((keystring) => {
+      const needle = keystring.trim().toUpperCase()
+      return (
+        needle.length > 0 &&
+        (title.includes(needle) || materialKey.includes(needle))
+      )
+    })
+    if (matches) return configAsset
+  }
+
+  return null
+}
+
+// Group consecutive matching entries into broadcast segments. A segment ends
+// when there's a significant time gap between matching entries.
+function buildSegments(
+  matchingEntries: LogEntry[]
+): Array<{ startEntry: LogEntry; endEntry: LogEntry }> {
+  const broadcastSegments: Array<{ startEntry: LogEntry; endEntry: LogEntry }> =
+    []
+
+  let currentSegmentStart = 0
+  for (let i = 0; i < matchingEntries.length; i++) {
+    const currentEntry = matchingEntries[i]
+    const nextEntry = matchingEntries[i + 1]
+
+    // Check if this is the last entry or if there's a significant gap to the next entry
+    if (!nextEntry) {
+      // Last entry - close the current segment
+      broadcastSegments.push({
+        startEntry: matchingEntries[currentSegmentStart],
+        endEntry: currentEntry,
+      })
+    } else {
+      // Check time gap between the end of the current entry and the start of the next
+      const currentEnd = currentEntry.endDateTime || currentEntry.dateTime
+      const currentTime = currentEnd ? new Date(currentEnd) : null
+      const nextTime = nextEntry.dateTime ? new Date(nextEntry.dateTime) : null
+
+      if (currentTime && nextTime) {
+        const gapMinutes =
+          (nextTime.getTime() - currentTime.getTime()) / (1000 * 60)
+
+        if (gapMinutes > MAX_GAP_MINUTES) {
+          // Significant gap - close current segment and start new one
+          broadcastSegments.push({
+            startEntry: matchingEntries[currentSegmentStart],
+            endEntry: currentEntry,
+          })
+          currentSegmentStart = i + 1
+        }
+      }
+    }
+  }
+
+  return broadcastSegments
+}
+
+// End time comes from the last entry's parsed duration; logs without a
+// duration column fall back to the next DIFFERENT program's start
+function resolveEndTime(
+  startTime: Date,
+  endEntry: LogEntry,
+  parsedLogs: ParsedLogData,
+  matchesProgram: EntryMatcher
+): Date {
+  if (
+    endEntry.endDateTime &&
+    new Date(endEntry.endDateTime).getTime() > startTime.getTime()
+  ) {
+    return new Date(endEntry.endDateTime)
+  }
+
+  const nextDifferentProgram = parsedLogs.programs.find(
+    (e) =>
+      e.lineNumber > endEntry.lineNumber && !matchesProgram(e) && e.dateTime
+  )
+
+  if (nextDifferentProgram && nextDifferentProgram.dateTime) {
+    const endTime = new Date(nextDifferentProgram.dateTime)
+    // Validate end time
+    if (!isNaN(endTime.getTime())) {
+      return endTime
+    }
+  }
+
+  // Default to 2 hours if no next program found
+  return new Date(startTime.getTime() + 2 * 60 * 60 * 1000)
+}
+
+// First timed entry after a line, from entries in line order
+function nextTimedEntry(
+  entries: LogEntry[],
+  lineNumber: number
+): LogEntry | null {
+  let low = 0
+  let high = entries.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (entries[middle].lineNumber <= lineNumber) {
+      low = middle + 1
+    } else {
+      high = middle
+    }
+  }
+  return entries.slice(low).find((entry) => entry.dateTime) ?? null
+}
+
+// Billboard ends after its parsed duration, or when the next timed program or
+// billboard starts
+function resolveBillboardEndTime(
+  billboard: LogEntry,
+  startTime: Date,
+  parsedLogs: ParsedLogData
+): Date {
+  const nextEntry = [
+    nextTimedEntry(parsedLogs.programs, billboard.lineNumber),
+    nextTimedEntry(parsedLogs.billboards, billboard.lineNumber),
+  ]
+    .filter((entry): entry is LogEntry => entry !== null)
+    .sort((a, b) => a.lineNumber - b.lineNumber)[0]
+  const endTime = billboard.endDateTime
+    ? new Date(billboard.endDateTime)
+    : nextEntry
+      ? new Date(nextEntry.dateTime!)
+      : new Date(startTime.getTime() + DEFAULT_BILLBOARD_SECONDS * 1000)
+
+  if (isNaN(endTime.getTime()) || endTime <= startTime) {
+    return new Date(startTime.getTime() + DEFAULT_BILLBOARD_SECONDS * 1000)
+  }
+  return endTime
+}
+
+// Intervals overlap when each starts before the other ends
+function overlaps(
+  a: { startTime: Date; endTime: Date },
+  b: { startTime: Date; endTime: Date }
+): boolean {
+  return a.startTime < b.endTime && b.startTime < a.endTime
+}
+
+// Milliseconds two intervals have in common
+function overlapMs(a: BroadcastTimes, b: BroadcastTimes): number {
+  return Math.max(
+    0,
+    Math.min(a.endTime.getTime(), b.endTime.getTime()) -
+      Math.max(a.startTime.getTime(), b.startTime.getTime())
+  )
+}
+
+// Time the log's program entries span. Reconciliation only judges broadcasts
+// in this span, as the log says nothing about the rest of the day.
+function logCoverage(parsedLogs: ParsedLogData): BroadcastTimes | null {
+  let start = Infinity
+  let end = -Infinity
+  for (const entry of parsedLogs.programs) {
+    if (!entry.dateTime) continue
+    const entryStart = new Date(entry.dateTime).getTime()
+    const entryEnd = entry.endDateTime
+      ? new Date(entry.endDateTime).getTime()
+      : entryStart
+    start = Math.min(start, entryStart)
+    end = Math.max(end, entryEnd)
+  }
+  return start <= end
+    ? { startTime: new Date(start), endTime: new Date(end) }
+    : null
+}
+
+// Broadcasts are only changed or deleted while neither pipeline has touched
+// them
+function isPending(broadcast: Broadcast): boolean {
+  return (
+    broadcast.integrationStatus === BroadcastStatus.PENDING &&
+    broadcast.billboardStatus === BroadcastStatus.PENDING
+  )
+}
+
+// Audit snapshot of a broadcast's name and times
+function auditSnapshot(broadcast: { name: string } & BroadcastTimes) {
+  return {
+    name: broadcast.name,
+    startTime: broadcast.startTime.toISOString(),
+    endTime: broadcast.endTime.toISOString(),
+  }
+}
+
+// Plan billboard detections for every billboard in the log that aired during the broadcast
+async function planBillboards(
+  db: Db,
+  broadcast: { ref: string; id: string | null; startTime: Date; endTime: Date },
+  day: PlannedDay,
+  parsedLogs: ParsedLogData
+): Promise<PlannedBillboard[]> {
+  const billboards = parsedLogs.billboards.filter((billboard) => {
+    if (!billboard.dateTime) return false
+    const airTime = new Date(billboard.dateTime).getTime()
+    return (
+      airTime >= broadcast.startTime.getTime() &&
+      airTime < broadcast.endTime.getTime()
+    )
+  })
+
+  if (billboards.length === 0) {
+    return []
+  }
+
+  const configAssets = day.billboardConfigId
+    ? await db.billboardConfigAsset.findMany({
+        where: { configId: day.billboardConfigId },
+      })
+    : []
+
+  const planned: PlannedBillboard[] = []
+
+  for (const billboard of billboards) {
+    const startTime = new Date(billboard.dateTime!)
+    const endTime = resolveBillboardEndTime(billboard, startTime, parsedLogs)
+
+    // Skip billboards already ingested from a previous run of this log. Match
+    // within a second so rows stored before frame-accurate parsing still count
+    if (broadcast.id) {
+      const existingDetection = await db.detection.findFirst({
+        where: {
+          broadcastId: broadcast.id,
+          isBillboard: true,
+          startTime: {
+            gte: new Date(startTime.getTime() - 1000),
+            lte: new Date(startTime.getTime() + 1000),
+          },
+        },
+      })
+
+      if (existingDetection) {
+        continue
+      }
+    }
+
+    const configAsset = matchBillboardConfigAsset(billboard, configAssets)
+    if (!configAsset) {
+      console.log(
+        `    ⚠️  No billboard config asset matches: ${billboard.databaseTitle}`
+      )
+    }
+
+    planned.push({
+      broadcastRef: broadcast.id || broadcast.ref,
+      broadcastId: broadcast.id,
+      title: billboard.databaseTitle,
+      startTime,
+      endTime,
+      billboardConfigAssetId: configAsset?.id ?? null,
+    })
+  }
+
+  console.log(
+    `    🪧 ${planned.length} billboard(s) to ingest (${
+      billboards.length - planned.length
+    } already present)`
+  )
+
+  return planned
+}
+
+const dayRef = (program: PlanProgram, date: Date) =>
+  `day:${program.id}:${date.toISOString().slice(0, 10)}`
+
+// The existing Day for a program and broadcast day, if there is one
+async function findExistingDay(
+  db: Db,
+  program: PlanProgram,
+  date: Date
+): Promise<PlannedDay | null> {
+  const existingDay = await db.day.findFirst({
+    where: {
+      programId: program.id,
+      date: date,
+    },
+  })
+  if (!existingDay) return null
+
+  return {
+    ref: dayRef(program, date),
+    id: existingDay.id,
+    programId: program.id,
+    programName: program.name,
+    name: existingDay.name,
+    date: date,
+    billboardConfigId: existingDay.billboardConfigId,
+  }
+}
+
+// Find or plan the Day for a program and broadcast day
+async function planDay(
+  db: Db,
+  plan: BroadcastPlan,
+  program: PlanProgram,
+  date: Date
+): Promise<PlannedDay> {
+  const ref = dayRef(program, date)
+  const planned = plan.days.find((day) => day.ref === ref)
+  if (planned) return planned
+
+  const existingDay = await findExistingDay(db, program, date)
+  if (existingDay) {
+    console.log(`  ✓  Day already exists: ${existingDay.name}`)
+    plan.days.push(existingDay)
+    return existingDay
+  }
+
+  const dayName = `${program.name} - ${date.toLocaleDateString("en-AU", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  })}`
+
+  const day: PlannedDay = {
+    ref,
+    id: null,
+    programId: program.id,
+    programName: program.name,
+    name: dayName,
+    date: date,
+    billboardConfigId: null,
+  }
+
+  console.log(`  ➕ Day to create: ${dayName}`)
+  plan.days.push(day)
+  plan.daysToCreate.push(day)
+  return day
+}
+
+// Add a broadcast to create, along with the billboards that aired during it
+async function planBroadcastCreation(
+  db: Db,
+  plan: BroadcastPlan,
+  day: PlannedDay,
+  programName: string,
+  segment: LogSegment,
+  parsedLogs: ParsedLogData,
+  splitFrom: string | null = null
+) {
+  const { channel, region } = plan.logFile
+  const broadcast: PlannedBroadcast = {
+    ref: `broadcast:${plan.broadcastsToCreate.length}`,
+    dayRef: day.ref,
+    programName,
+    name: segment.name,
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+    channel,
+    region,
+    splitFrom,
+  }
+
+  console.log(
+    `  ✅ Broadcast to create${splitFrom ? ` (split from ${splitFrom})` : ""}: ${
+      segment.name
+    } (${segment.startTime.toISOString()} - ${segment.endTime.toISOString()})`
+  )
+  plan.broadcastsToCreate.push(broadcast)
+
+  plan.billboardsToCreate.push(
+    ...(await planBillboards(
+      db,
+      { ...segment, ref: broadcast.ref, id: null },
+      day,
+      parsedLogs
+    ))
+  )
+}
+
+/**
+ * Reconcile the existing broadcasts for a day/channel/region with the
+ * segments in a (corrected) log.
+ *
+ * Only broadcasts overlapping the time the log covers are considered. Each
+ * segment belongs to the existing broadcast it overlaps most. A broadcast
+ * that owns segments takes the first segment's times while PENDING (otherwise
+ * it keeps its times and is reported) and the rest are split out as new
+ * broadcasts. A broadcast that only overlaps segments owned by
+ * another broadcast is merged into it while PENDING, otherwise kept and
+ * reported. Broadcasts overlapping no segment are orphaned: deleted while
+ * PENDING, otherwise kept and reported. Segments that
+ * overlap no existing broadcast are created as usual.
+ */
+async function planReconciliation(
+  db: Db,
+  plan: BroadcastPlan,
+  day: PlannedDay,
+  programName: string,
+  segments: LogSegment[],
+  parsedLogs: ParsedLogData,
+  coverage: BroadcastTimes
+) {
+  const { channel, region } = plan.logFile
+
+  const existing = await db.broadcast.findMany({
+    where: {
+      dayId: day.id!,
+      channel: channel,
+      region: region,
+      startTime: { lte: coverage.endTime },
+      endTime: { gt: coverage.startTime },
+    },
+    orderBy: { startTime: "asc" },
+  })
+
+  console.log(
+    `  🔁 Reconciling ${segments.length} segment(s) with ${existing.length} existing broadcast(s)`
+  )
+
+  const owners = segments.map((segment) => {
+    let owner: Broadcast | null = null
+    let ownerOverlap = 0
+    for (const broadcast of existing) {
+      const overlap = overlapMs(broadcast, segment)
+      if (overlap > ownerOverlap) {
+        owner = broadcast
+        ownerOverlap = overlap
+      }
+    }
+    return owner
+  })
+
+  for (const broadcast of existing) {
+    const owned = segments.filter((_, i) => owners[i]?.id === broadcast.id)
+
+    if (owned.length > 0) {
+      const [first, ...splits] = owned
+
+      if (
+        first.startTime.getTime() !== broadcast.startTime.getTime() ||
+        first.endTime.getTime() !== broadcast.endTime.getTime()
+      ) {
+        const update: BroadcastUpdate = {
+          broadcastId: broadcast.id,
+          name: broadcast.name,
+          before: {
+            startTime: broadcast.startTime,
+            endTime: broadcast.endTime,
+          },
+          after: { startTime: first.startTime, endTime: first.endTime },
+        }
+
+        // Analysed broadcasts keep the times their results were made for
+        if (isPending(broadcast)) {
+          console.log(
+            `  ✏️  Broadcast to update: ${broadcast.name} (${broadcast.startTime.toISOString()} - ${broadcast.endTime.toISOString()} -> ${first.startTime.toISOString()} - ${first.endTime.toISOString()})`
+          )
+          plan.broadcastsToUpdate.push(update)
+        } else {
+          console.log(
+            `  ⚠️  Broadcast times kept (already analysed): ${broadcast.name}`
+          )
+          plan.updatesKept.push(update)
+        }
+      }
+
+      plan.billboardsToCreate.push(
+        ...(await planBillboards(
+          db,
+          { ...first, ref: broadcast.id, id: broadcast.id },
+          day,
+          parsedLogs
+        ))
+      )
+
+      for (const segment of splits) {
+        await planBroadcastCreation(
+          db,
+          plan,
+          day,
+          programName,
+          segment,
+          parsedLogs,
+          broadcast.id
+        )
+      }
+      continue
+    }
+
+    // Overlaps segments owned by another broadcast - merge into that one
+    let mergeTarget: Broadcast | null = null
+    let mergeOverlap = 0
+    for (let i = 0; i < segments.length; i++) {
+      const overlap = overlapMs(broadcast, segments[i])
+      if (owners[i] && overlap > mergeOverlap) {
+        mergeTarget = owners[i]
+        mergeOverlap = overlap
+      }
+    }
+
+    if (mergeTarget) {
+      const merge: BroadcastMerge = {
+        broadcastId: broadcast.id,
+        name: broadcast.name,
+        intoBroadcastId: mergeTarget.id,
+        startTime: broadcast.startTime,
+        endTime: broadcast.endTime,
+      }
+
+      // Merging deletes the broadcast, so analysed ones are left alone
+      if (isPending(broadcast)) {
+        console.log(
+          `  🔗 Broadcast to merge: ${broadcast.name} -> ${mergeTarget.name}`
+        )
+        plan.broadcastsToMerge.push(merge)
+      } else {
+        console.log(
+          `  ⚠️  Broadcast kept instead of merging (already analysed): ${broadcast.name} -> ${mergeTarget.name}`
+        )
+        plan.mergesKept.push(merge)
+      }
+      continue
+    }
+
+    // No longer in the log
+    const orphan: BroadcastRemoval = {
+      broadcastId: broadcast.id,
+      name: broadcast.name,
+      startTime: broadcast.startTime,
+      endTime: broadcast.endTime,
+    }
+
+    if (isPending(broadcast)) {
+      console.log(`  🗑️  Orphaned broadcast to delete: ${broadcast.name}`)
+      plan.broadcastsToDelete.push(orphan)
+    } else {
+      console.log(
+        `  ⚠️  Orphaned broadcast kept (already analysed): ${broadcast.name}`
+      )
+      plan.orphansKept.push(orphan)
+    }
+  }
+
+  for (let i = 0; i < segments.length; i++) {
+    if (!owners[i]) {
+      await planBroadcastCreation(
+        db,
+        plan,
+        day,
+        programName,
+        segments[i],
+        parsedLogs
+      )
+    }
+  }
+}
+
+// Reconcile a program's existing broadcasts on days the log covers but has no
+// segments for, so every one of them is orphaned. Days are never created here.
+async function reconcileUncoveredDays(
+  db: Db,
+  plan: BroadcastPlan,
+  program: PlanProgram,
+  dayTimes: Set<number>,
+  parsedLogs: ParsedLogData,
+  coverage: BroadcastTimes
+) {
+  for (const dayTime of dayTimes) {
+    const day = await findExistingDay(db, program, new Date(dayTime))
+    if (!day) continue
+    await planReconciliation(
+      db,
+      plan,
+      day,
+      program.name,
+      [],
+      parsedLogs,
+      coverage
+    )
+  }
+}
+
+/**
+ * Work out which days, broadcasts, billboard detections and log file links a
+ * parsed LOG file would create. Only reads from the database.
+ *
+ * @param db - Prisma client or transaction to read existing rows with
+ * @param key - S3 key of the LOG file
+ * @param metadata - Date, region and channel parsed from the file name
+ * @param parsedLogs - Parsed log entries
+ * @param programs - Programs to match against log entries by their match rules
+ * @param options - Set reconcile to update, split, merge and delete existing
+ *   broadcasts to match the log instead of skipping overlapping segments
+ */
+export async function buildBroadcastPlan(
+  db: Db,
+  key: string,
+  metadata: LogFileMetadata,
+  parsedLogs: ParsedLogData,
+  programs: PlanProgram[],
+  options: BroadcastPlanOptions = {}
+): Promise<BroadcastPlan> {
+  const { date, region, channel } = metadata
+
+  const plan: BroadcastPlan = {
+    logFile: { key, date, region, channel },
+    days: [],
+    daysToCreate: [],
+    broadcastsToCreate: [],
+    skippedBroadcasts: [],
+    billboardsToCreate: [],
+    logFileLinks: [],
+    reconciled: options.reconcile === true,
+    broadcastsToUpdate: [],
+    updatesKept: [],
+    broadcastsToMerge: [],
+    mergesKept: [],
+    broadcastsToDelete: [],
+    orphansKept: [],
+  }
+
+  // Broadcast days the log has entries on. Reconciling checks every program on
+  // each of them, so one dropped from the corrected log loses its broadcasts.
+  const coverage = logCoverage(parsedLogs)
+  const coveredDays = new Set<number>()
+  if (options.reconcile && coverage) {
+    coveredDays.add(date.getTime())
+    for (const entry of parsedLogs.programs) {
+      if (!entry.dateTime) continue
+      coveredDays.add(
+        getBroadcastDay(new Date(entry.dateTime), region).getTime()
+      )
+    }
+  }
+
+  // Match programs with database entries using their match rules
+  for (const program of programs) {
+    const matchesProgram = createProgramMatcher(
+      program.keyword,
+      program.matchRules,
+      { channel, region }
+    )
+
+    // Find all log entries matching this program
+    const matchingEntries = parsedLogs.programs.filter(matchesProgram)
+
+    if (matchingEntries.length === 0) {
+      console.log(
+        `  ⏭️  No matches for program: ${program.name} (keyword: ${program.keyword})`
+      )
+      if (options.reconcile && coverage) {
+        await reconcileUncoveredDays(
+          db,
+          plan,
+          program,
+          coveredDays,
+          parsedLogs,
+          coverage
+        )
+      }
+      continue
+    }
+
+    console.log(
+      `  🎯 Found ${matchingEntries.length} log entries for: ${program.name}`
+    )
+
+    const broadcastSegments = buildSegments(matchingEntries)
+
+    console.log(
+      `  📺 Identified ${broadcastSegments.length} broadcast segment(s)`
+    )
+
+    // Resolve each broadcast segment's times
+    const segments: LogSegment[] = []
+    for (const segment of broadcastSegments) {
+      const { startEntry, endEntry } = segment
+
+      if (!startEntry.time || !startEntry.dateTime) {
+        console.warn(`  ⚠️  Skipping segment without valid start time`)
+        continue
+      }
+
+      // Parse and validate start time
+      const startTime = new Date(startEntry.dateTime)
+      if (isNaN(startTime.getTime())) {
+        console.warn(
+          `  ⚠️  Skipping segment with invalid start date: ${startEntry.dateTime}`
+        )
+        continue
+      }
+
+      segments.push({
+        name: `${startEntry.databaseTitle} (${region})`,
+        startTime,
+        endTime: resolveEndTime(
+          startTime,
+          endEntry,
+          parsedLogs,
+          matchesProgram
+        ),
+      })
+    }
+
+    // Group segments by the broadcast day they start in, so broadcasts after
+    // midnight (or the rollover hour) land on the right Day
+    const segmentsByDay = new Map<number, LogSegment[]>()
+    for (const segment of segments) {
+      const dayTime = getBroadcastDay(segment.startTime, region).getTime()
+      segmentsByDay.set(dayTime, [
+        ...(segmentsByDay.get(dayTime) || []),
+        segment,
+      ])
+    }
+
+    // Matched programs still get the file's Day for the LogFile link
+    if (segmentsByDay.size === 0) {
+      segmentsByDay.set(date.getTime(), [])
+    }
+
+    for (const [dayTime, daySegments] of segmentsByDay) {
+      const day = await planDay(db, plan, program, new Date(dayTime))
+
+      if (options.reconcile && coverage && day.id) {
+        await planReconciliation(
+          db,
+          plan,
+          day,
+          program.name,
+          daySegments,
+          parsedLogs,
+          coverage
+        )
+        continue
+      }
+
+      // Process each broadcast segment
+      for (const segment of daySegments) {
+        const { name, startTime, endTime } = segment
+
+        // Check if an overlapping broadcast already exists for this day/channel/region
+        const overlappingBroadcast = day.id
+          ? await db.broadcast.findFirst({
+              where: {
+                dayId: day.id,
+                channel: channel,
+                region: region,
+                OR: [
+                  // New broadcast starts during existing broadcast
+                  {
+                    AND: [
+                      { startTime: { lte: startTime } },
+                      { endTime: { gt: startTime } },
+                    ],
+                  },
+                  // New broadcast ends during existing broadcast
+                  {
+                    AND: [
+                      { startTime: { lt: endTime } },
+                      { endTime: { gte: endTime } },
+                    ],
+                  },
+                  // New broadcast completely contains existing broadcast
+                  {
+                    AND: [
+                      { startTime: { gte: startTime } },
+                      { endTime: { lte: endTime } },
+                    ],
+                  },
+                ],
+              },
+            })
+          : null
+
+        if (overlappingBroadcast) {
+          console.log(
+            `  ⏭️  Overlapping broadcast already exists: ${
+              overlappingBroadcast.name
+            } (${overlappingBroadcast.startTime.toISOString()} - ${overlappingBroadcast.endTime.toISOString()})`
+          )
+          plan.skippedBroadcasts.push({
+            programName: program.name,
+            name,
+            startTime,
+            endTime,
+            conflict: {
+              id: overlappingBroadcast.id,
+              name: overlappingBroadcast.name,
+              startTime: overlappingBroadcast.startTime,
+              endTime: overlappingBroadcast.endTime,
+            },
+          })
+
+          // Billboards are ingested for existing broadcasts too; duplicates are skipped
+          plan.billboardsToCreate.push(
+            ...(await planBillboards(
+              db,
+              { ref: overlappingBroadcast.id, ...overlappingBroadcast },
+              day,
+              parsedLogs
+            ))
+          )
+          continue
+        }
+
+        // Earlier segments in this plan count as existing broadcasts too
+        const overlappingPlanned = plan.broadcastsToCreate.find(
+          (planned) =>
+            planned.dayRef === day.ref &&
+            overlaps(planned, { startTime, endTime })
+        )
+
+        if (overlappingPlanned) {
+          console.log(
+            `  ⏭️  Overlaps broadcast earlier in this log: ${overlappingPlanned.name}`
+          )
+          plan.skippedBroadcasts.push({
+            programName: program.name,
+            name,
+            startTime,
+            endTime,
+            conflict: {
+              id: null,
+              name: overlappingPlanned.name,
+              startTime: overlappingPlanned.startTime,
+              endTime: overlappingPlanned.endTime,
+            },
+          })
+          continue
+        }
+
+        await planBroadcastCreation(
+          db,
+          plan,
+          day,
+          program.name,
+          segment,
+          parsedLogs
+        )
+      }
+    }
+
+    if (options.reconcile && coverage) {
+      await reconcileUncoveredDays(
+        db,
+        plan,
+        program,
+        new Set(
+          [...coveredDays].filter((dayTime) => !segmentsByDay.has(dayTime))
+        ),
+        parsedLogs,
+        coverage
+      )
+    }
+  }
+
+  // Link the LogFile to the file date's day, or the first matched day (only for metro regions)
+  if (getRegion(region)?.metro && plan.days.length > 0) {
+    const fileDay =
+      plan.days.find((day) => day.date.getTime() === date.getTime()) ||
+      plan.days[0]
+
+    const existingLogFile = await db.logFile.findUnique({
+      where: { s3_key: key },
+    })
+
+    plan.logFileLinks.push({
+      s3Key: key,
+      dayRef: fileDay.ref,
+      region,
+      channel,
+      existing: existingLogFile !== null,
+    })
+  } else {
+    console.log(
+      `  ⏭️  Skipping LogFile link (region not in main list or no programs matched)`
+    )
+  }
+
+  return plan
+}
+
+/**
+ * Write a plan built by buildBroadcastPlan(). Run it inside the same
+ * transaction the plan was built in so the reads still hold.
+ */
+export async function applyBroadcastPlan(
+  db: Db,
+  plan: BroadcastPlan
+): Promise<AppliedPlan> {
+  const applied: AppliedPlan = {
+    daysCreated: 0,
+    broadcasts: [],
+    billboardsCreated: 0,
+    logFilesCreated: 0,
+    broadcastsUpdated: 0,
+    broadcastsMerged: 0,
+    broadcastsDeleted: 0,
+    broadcastsKept: 0,
+  }
+  const logFileKey = plan.logFile.key
+
+  const dayIds = new Map<string, string>()
+  for (const day of plan.days) {
+    if (day.id) dayIds.set(day.ref, day.id)
+  }
+
+  for (const day of plan.daysToCreate) {
+    console.log(`  ➕ Creating new day: ${day.name}`)
+    const created = await db.day.create({
+      data: {
+        name: day.name,
+        date: day.date,
+        programId: day.programId,
+      },
+    })
+    dayIds.set(day.ref, created.id)
+    applied.daysCreated++
+  }
+
+  for (const update of plan.broadcastsToUpdate) {
+    await db.broadcast.update({
+      where: { id: update.broadcastId },
+      data: {
+        startTime: update.after.startTime,
+        endTime: update.after.endTime,
+      },
+    })
+    await db.broadcastAudit.create({
+      data: {
+        broadcastId: update.broadcastId,
+        action: BroadcastChange.UPDATED,
+        before: auditSnapshot({ name: update.name, ...update.before }),
+        after: auditSnapshot({ name: update.name, ...update.after }),
+        logFileKey,
+      },
+    })
+    console.log(`  ✏️  Updated broadcast times: ${update.name}`)
+    applied.broadcastsUpdated++
+  }
+
+  for (const merge of plan.broadcastsToMerge) {
+    // Keep the merged broadcast's detections on the surviving broadcast
+    await db.detection.updateMany({
+      where: { broadcastId: merge.broadcastId },
+      data: { broadcastId: merge.intoBroadcastId },
+    })
+    await db.broadcast.delete({ where: { id: merge.broadcastId } })
+    await db.broadcastAudit.create({
+      data: {
+        broadcastId: merge.broadcastId,
+        action: BroadcastChange.MERGED,
+        relatedBroadcastId: merge.intoBroadcastId,
+        before: auditSnapshot(merge),
+        logFileKey,
+      },
+    })
+    console.log(
+      `  🔗 Merged broadcast ${merge.name} into ${merge.intoBroadcastId}`
+    )
+    applied.broadcastsMerged++
+  }
+
+  const broadcastIds = new Map<string, string>()
+  for (const planned of plan.broadcastsToCreate) {
+    const broadcast = await db.broadcast.create({
+      data: {
+        name: planned.name,
+        startTime: planned.startTime,
+        endTime: planned.endTime,
+        integrationStatus: BroadcastStatus.PENDING,
+        billboardStatus: BroadcastStatus.PENDING,
+        channel: planned.channel,
+        region: planned.region,
+        dayId: dayIds.get(planned.dayRef)!,
+      },
+    })
+    broadcastIds.set(planned.ref, broadcast.id)
+
+    if (planned.splitFrom) {
+      // Detections that aired in the split-out window move with it
+      await db.detection.updateMany({
+        where: {
+          broadcastId: planned.splitFrom,
+          startTime: { gte: planned.startTime, lt: planned.endTime },
+        },
+        data: { broadcastId: broadcast.id },
+      })
+    }
+
+    await db.broadcastAudit.create({
+      data: {
+        broadcastId: broadcast.id,
+        action: planned.splitFrom
+          ? BroadcastChange.SPLIT
+          : BroadcastChange.CREATED,
+        relatedBroadcastId: planned.splitFrom,
+        after: auditSnapshot(planned),
+        logFileKey,
+      },
+    })
+
+    console.log(
+      `  ✅ Created broadcast: ${
+        broadcast.name
+      } (${planned.startTime.toLocaleTimeString()} - ${planned.endTime.toLocaleTimeString()})`
+    )
+
+    applied.broadcasts.push({
+      program: planned.programName,
+      broadcast: broadcast.id,
+      startTime: planned.startTime,
+      endTime: planned.endTime,
+    })
+  }
+
+  for (const removal of plan.broadcastsToDelete) {
+    await db.broadcast.delete({ where: { id: removal.broadcastId } })
+    await db.broadcastAudit.create({
+      data: {
+        broadcastId: removal.broadcastId,
+        action: BroadcastChange.DELETED,
+        before: auditSnapshot(removal),
+        logFileKey,
+      },
+    })
+    console.log(`  🗑️  Deleted orphaned broadcast: ${removal.name}`)
+    applied.broadcastsDeleted++
+  }
+
+  // Analysed broadcasts the log would have changed stay as they are, but the
+  // change they were spared is recorded
+  for (const kept of plan.updatesKept) {
+    await db.broadcastAudit.create({
+      data: {
+        broadcastId: kept.broadcastId,
+        action: BroadcastChange.KEPT,
+        before: auditSnapshot({ name: kept.name, ...kept.before }),
+        after: auditSnapshot({ name: kept.name, ...kept.after }),
+        logFileKey,
+      },
+    })
+    applied.broadcastsKept++
+  }
+  for (const kept of plan.mergesKept) {
+    await db.broadcastAudit.create({
+      data: {
+        broadcastId: kept.broadcastId,
+        action: BroadcastChange.KEPT,
+        relatedBroadcastId: kept.intoBroadcastId,
+        before: auditSnapshot(kept),
+        logFileKey,
+      },
+    })
+    applied.broadcastsKept++
+  }
+  for (const kept of plan.orphansKept) {
+    await db.broadcastAudit.create({
+      data: {
+        broadcastId: kept.broadcastId,
+        action: BroadcastChange.KEPT,
+        before: auditSnapshot(kept),
+        logFileKey,
+      },
+    })
+    applied.broadcastsKept++
+  }
+  if (applied.broadcastsKept > 0) {
+    console.log(
+      `  ⚠️  Kept ${applied.broadcastsKept} analysed broadcast(s) the log would have changed`
+    )
+  }
+
+  for (const billboard of plan.billboardsToCreate) {
+    const broadcastId =
+      billboard.broadcastId || broadcastIds.get(billboard.broadcastRef)!
+
+    // Merges and splits move detections around after planning, so check again
+    if (plan.reconciled) {
+      const existingDetection = await db.detection.findFirst({
+        where: {
+          broadcastId: broadcastId,
+          isBillboard: true,
+          startTime: {
+            gte: new Date(billboard.startTime.getTime() - 1000),
+            lte: new Date(billboard.startTime.getTime() + 1000),
+          },
+        },
+      })
+      if (existingDetection) continue
+    }
+
+    await db.detection.create({
+      data: {
+        startTime: billboard.startTime,
+        endTime: billboard.endTime,
+        broadcastId: broadcastId,
+        isBillboard: true,
+        falsePositive: false,
+        billboardConfigAssetId: billboard.billboardConfigAssetId,
+        categorised: billboard.billboardConfigAssetId !== null,
+      },
+    })
+    applied.billboardsCreated++
+  }
+
+  for (const logFile of plan.logFileLinks) {
+    if (logFile.existing) {
+      console.log(`  ✓  Log file reference already exists: ${logFile.s3Key}`)
+      continue
+    }
+
+    const dayId = dayIds.get(logFile.dayRef)!
+    console.log(
+      `  📄 Adding log file reference: ${logFile.s3Key} -> dayId: ${dayId}, region: ${logFile.region}, channel: ${logFile.channel}`
+    )
+    await db.logFile.create({
+      data: {
+        s3_key: logFile.s3Key,
+        dayId: dayId,
+        region: logFile.region,
+        channel: logFile.channel,
+      },
+    })
+    applied.logFilesCreated++
+  }
+
+  return applied
+}
@@ -0,0 +1,159 @@
+/**
+ * A fixed-width column, using the 1-indexed column numbers from the AS RUN
+ * format documentation
+ */
+export interface LogColumn {
+  column: number
+  width: number
+}
+
+/**
+ * Declarative description of a fixed-width AS RUN log layout
+ */
+export interface LogLayout {
+  name: string
+  // Lines shorter than this are rejected as not fitting the layout
+  minLineLength: number
+  // Exact record length written by the playout system, used for detection
+  lineLength?: number
+  // Matches a header line identifying this layout; matching lines are skipped
+  headerPattern?: RegExp
+  columns: {
+    marketChannel: LogColumn
+    dateTime: LogColumn // YYYYMMDD HH:mm:ss:ff
+    duration?: LogColumn // HH:mm:ss:ff
+    materialKey: LogColumn
+    materialType: LogColumn // I=billboard, M/S=program
+    databaseTitle: LogColumn
+  }
+}
+
+/**
+ * Current AS RUN layout
+ *
+ * - Column 1 (6 chars): market-channel combination
+ * - Column 56 (20 chars): Date/Time - YYYYMMDD HH:mm:ss:ff
+ * - Column 76 (11 chars): Duration - HH:mm:ss:ff
+ * - Column 120 (32 chars): Material Key (unique identifier)
+ * - Column 189 (1 char): Material Type (I=billboard, M/S=program)
+ * - Column 296 (64 chars): Database Title
+ */
+export const DEFAULT_LOG_LAYOUT: LogLayout = {
+  name: "as-run",
+  minLineLength: 360, // 296 + 64
+  columns: {
+    marketChannel: { column: 1, width: 6 },
+    dateTime: { column: 56, width: 20 },
+    duration: { column: 76, width: 11 },
+    materialKey: { column: 120, width: 32 },
+    materialType: { column: 189, width: 1 },
+    databaseTitle: { column: 296, width: 64 },
+  },
+}
+
+/**
+ * Older AS RUN revision, written before the Duration field was added. The
+ * fields after Date/Time sit 11 columns further left, in 348-character records.
+ *
+ * - Column 1 (6 chars): market-channel combination
+ * - Column 56 (20 chars): Date/Time - YYYYMMDD HH:mm:ss:ff
+ * - Column 109 (32 chars): Material Key (unique identifier)
+ * - Column 178 (1 char): Material Type (I=billboard, M/S=program)
+ * - Column 285 (64 chars): Database Title
+ */
+export const LEGACY_LOG_LAYOUT: LogLayout = {
+  name: "as-run-legacy",
+  minLineLength: 348, // 285 + 64 - 1
+  lineLength: 348,
+  columns: {
+    marketChannel: { column: 1, width: 6 },
+    dateTime: { column: 56, width: 20 },
+    materialKey: { column: 109, width: 32 },
+    materialType: { column: 178, width: 1 },
+    databaseTitle: { column: 285, width: 64 },
+  },
+}
+
+const layoutRegistry = new Map<string, LogLayout>([
+  [DEFAULT_LOG_LAYOUT.name, DEFAULT_LOG_LAYOUT],
+  [LEGACY_LOG_LAYOUT.name, LEGACY_LOG_LAYOUT],
+])
+
+/**
+ * Register a layout so it can be selected by name and picked up by detection
+ */
+export function registerLogLayout(layout: LogLayout): void {
+  layoutRegistry.set(layout.name, layout)
+}
+
+/**
+ * Look up a registered layout by name
+ */
+export function getLogLayout(name: string): LogLayout | null {
+  return layoutRegistry.get(name) || null
+}
+
+/**
+ * List all registered layouts, default first
+ */
+export function getLogLayouts(): LogLayout[] {
+  return Array.from(layoutRegistry.values())
+}
+
+/**
+ * Extract a column's trimmed value from a line
+ */
+export function readColumn(line: string, column: LogColumn): string {
+  const start = column.column - 1
+  return line.substring(start, start + column.width).trim()
+}
+
+// Number of non-empty lines sampled when detecting a layout
+export const DETECTION_SAMPLE_SIZE = 50
+
+/**
+ * Detect the layout of a log file from its header or line lengths.
+ *
+ * A layout whose header pattern matches one of the first lines wins outright.
+ * Otherwise each layout is scored by how many sampled lines have its exact
+ * record length, then by how many are long enough for it. Ties keep the
+ * default layout.
+ *
+ * @param lines - Lines from the start of the file
+ */
+export function detectLogLayout(lines: string[]): LogLayout {
+  const sample = lines
+    .map((line) => line.replace(/\r$/, ""))
+    .filter((line) => line.trim())
+    .slice(0, DETECTION_SAMPLE_SIZE)
+  const layouts = getLogLayouts()
+
+  for (const layout of layouts) {
+    if (
+      layout.headerPattern &&
+      sample.some((line) => layout.headerPattern!.test(line))
+    ) {
+      return layout
+    }
+  }
+
+  let best = DEFAULT_LOG_LAYOUT
+  let bestScore = -1
+
+  for (const layout of layouts) {
+    const exactMatches = layout.lineLength
+      ? sample.filter((line) => line.length === layout.lineLength).length
+      : 0
+    const fits = sample.filter(
+      (line) => line.length >= layout.minLineLength
+    ).length
+    const score = exactMatches * (sample.length + 1) + fits
+
+    if (score > bestScore) {
+      best = layout
+      bestScore = score
+    }
+  }
+
+  return best
+}
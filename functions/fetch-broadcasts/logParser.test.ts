@@ -0,0 +1,156 @@
+import { Readable } from "stream"
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_LOG_LAYOUT,
+  detectLogLayout,
+  LEGACY_LOG_LAYOUT,
+  LogLayout,
+} from "./logLayouts"
+import { LogEntry, parseLogs, parseLogsStream } from "./logParser"
+
+interface LineFields {
+  marketChannel: string
+  dateTime: string
+  duration?: string
+  materialKey: string
+  materialType: string
+  databaseTitle: string
+}
+
+// A fixed-width record with each field at its layout's column, padded to the
+// layout's record length
+function logLine(layout: LogLayout, fields: LineFields): string {
+  let line = " ".repeat(layout.lineLength ?? layout.minLineLength)
+  for (const [field, column] of Object.entries(layout.columns)) {
+    const value = fields[field as keyof LineFields] ?? ""
+    const start = column.column - 1
+    line =
+      line.substring(0, start) +
+      value.padEnd(column.width).substring(0, column.width) +
+      line.substring(start + column.width)
+  }
+  return line
+}
+
+const program = {
+  marketChannel: "SYDCH9",
+  dateTime: "20260104 06:00:00:02",
+  duration: "00:30:00:00",
+  materialKey: "NEWS0600",
+  materialType: "M",
+  databaseTitle: "TODAY",
+}
+
+const billboard = {
+  marketChannel: "SYDCH9",
+  dateTime: "20260104 06:10:00:00",
+  duration: "00:00:05:00",
+  materialKey: "BB0001",
+  materialType: "I",
+  databaseTitle: "OB ACME TODAY",
+}
+
+const logFile = (layout: LogLayout) =>
+  [logLine(layout, program), logLine(layout, billboard), ""].join("\r\n")
+
+// Fields every layout reads, so entries from either layout compare equal
+const summary = ({
+  marketChannel,
+  dateTime,
+  materialKey,
+  materialType,
+  databaseTitle,
+  billboardType,
+}: LogEntry) => ({
+  marketChannel,
+  dateTime,
+  materialKey,
+  materialType,
+  databaseTitle,
+  billboardType,
+})
+
+describe("detectLogLayout", () => {
+  it("keeps the default layout for current records", () => {
+    const lines = logFile(DEFAULT_LOG_LAYOUT).split("\n")
+    expect(detectLogLayout(lines).name).toBe(DEFAULT_LOG_LAYOUT.name)
+  })
+
+  it("detects the legacy layout from its record length", () => {
+    const lines = logFile(LEGACY_LOG_LAYOUT).split("\n")
+    expect(detectLogLayout(lines).name).toBe(LEGACY_LOG_LAYOUT.name)
+  })
+})
+
+describe("parseLogs", () => {
+  it("parses a legacy file with the detected layout", () => {
+    const parsed = parseLogs(logFile(LEGACY_LOG_LAYOUT), "SYD")
+
+    expect(parsed.layout).toBe(LEGACY_LOG_LAYOUT.name)
+    expect(parsed.rejectedCount).toBe(0)
+    expect(parsed.programs.map(summary)).toEqual([
+      {
+        marketChannel: "SYDCH9",
+        dateTime: "2026-01-03T19:00:00.080Z",
+        materialKey: "NEWS0600",
+        materialType: "M",
+        databaseTitle: "TODAY",
+        billboardType: null,
+      },
+    ])
+    expect(parsed.billboards.map(summary)).toEqual([
+      {
+        marketChannel: "SYDCH9",
+        dateTime: "2026-01-03T19:10:00.000Z",
+        materialKey: "BB0001",
+        materialType: "I",
+        databaseTitle: "OB ACME TODAY",
+        billboardType: "Open Billboard",
+      },
+    ])
+    // The legacy layout has no duration column
+    expect(parsed.programs[0].durationSeconds).toBeNull()
+  })
+
+  it("reads the same entries from either layout", () => {
+    const current = parseLogs(logFile(DEFAULT_LOG_LAYOUT), "SYD")
+    const legacy = parseLogs(logFile(LEGACY_LOG_LAYOUT), "SYD")
+
+    expect(current.layout).toBe(DEFAULT_LOG_LAYOUT.name)
+    expect(current.programs[0].durationSeconds).toBe(1800)
+    expect(legacy.allEntries.map(summary)).toEqual(
+      current.allEntries.map(summary)
+    )
+  })
+
+  it("rejects legacy records when the current layout is named", () => {
+    const parsed = parseLogs(logFile(LEGACY_LOG_LAYOUT), "SYD", {
+      layout: DEFAULT_LOG_LAYOUT.name,
+    })
+
+    expect(parsed.allEntries).toEqual([])
+    expect(parsed.rejectedLines.map(({ lineNumber }) => lineNumber)).toEqual([
+      1, 2,
+    ])
+  })
+})
+
+describe("parseLogsStream", () => {
+  it("detects the legacy layout before yielding entries", async () => {
+    const layouts: string[] = []
+    const entries: LogEntry[] = []
+    const source = Readable.from([Buffer.from(logFile(LEGACY_LOG_LAYOUT))])
+
+    for await (const entry of parseLogsStream(source, "SYD", {
+      onLayout: (layout) => layouts.push(layout.name),
+    })) {
+      entries.push(entry)
+    }
+
+    expect(layouts).toEqual([LEGACY_LOG_LAYOUT.name])
+    expect(entries.map(({ materialKey }) => materialKey)).toEqual([
+      "NEWS0600",
+      "BB0001",
+    ])
+  })
+})
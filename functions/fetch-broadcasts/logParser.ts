@@ -1,11 +1,25 @@
 import { DateTime } from "luxon"
+import { Readable } from "stream"
+import { getTimezoneForRegion } from "../shared/broadcastDay"
+import {
+  DETECTION_SAMPLE_SIZE,
+  LogLayout,
+  detectLogLayout,
+  getLogLayout,
+  readColumn,
+} from "./logLayouts"
+import { createProgramMatcher, EntryMatcher } from "./programMatcher"
 
 export interface LogEntry {
   lineNumber: number
   marketChannel: string
-  dateTime: string | null
+  dateTime: string | null // Frame-accurate UTC start time
   localDateTime: string | null // Local time before UTC conversion
   time: string | null
+  frames: number | null // Frame part of the start timecode (0-24)
+  duration: string | null // Raw duration timecode - HH:mm:ss:ff
+  durationSeconds: number | null
+  endDateTime: string | null // UTC start time plus duration
   materialKey: string
   materialType: string
   databaseTitle: string
@@ -15,29 +29,48 @@ export interface LogEntry {
     | "Middle Billboard"
     | "Close Billboard"
     | null
-  rawLine: string
+  rawLine?: string // Omitted by parseLogsStream unless includeRawLine is set
 }
 
+// AS RUN logs are timecoded at PAL frame rate
+export const FRAMES_PER_SECOND = 25
+
+export interface RejectedLine {
+  lineNumber: number
+  reason: string
+}
+
+// The entries broadcast planning uses, each in line order
 export interface ParsedLogData {
   billboards: LogEntry[]
   programs: LogEntry[]
+  layout: string // Name of the layout the file was parsed with
+  rejectedCount: number
+  rejectedLines: RejectedLine[]
+}
+
+// A whole parsed file, including material other than programs and billboards
+export interface ParsedLogFile extends ParsedLogData {
   allEntries: LogEntry[]
 }
 
-/**
- * Map region code to IANA timezone identifier
- */
-function getTimezoneForRegion(region: string): string {
-  const timezoneMap: Record<string, string> = {
-    SYD: "Australia/Sydney", // AEDT/AEST (UTC+11/+10, has DST)
-    MEL: "Australia/Melbourne", // AEDT/AEST (UTC+11/+10, has DST)
-    BNE: "Australia/Brisbane", // AEST (UTC+10, no DST)
-    PER: "Australia/Perth", // AWST (UTC+8, no DST)
-    ADL: "Australia/Adelaide", // ACDT/ACST (UTC+10.5/+9.5, has DST)
-  }
-  return timezoneMap[region] || "Australia/Sydney"
+export interface ParseLogsOptions {
+  // Layout spec or registered layout name; detected from the file when omitted
+  layout?: LogLayout | string
+}
+
+export interface ParseLogsStreamOptions extends ParseLogsOptions {
+  // Encoding of byte streams, e.g. "utf-8", "latin1", "windows-1252"
+  encoding?: string
+  // Keep rawLine on each entry (off by default to keep memory flat)
+  includeRawLine?: boolean
+  onLayout?: (layout: LogLayout) => void
+  onRejectedLine?: (rejected: RejectedLine, layout: LogLayout) => void
 }
 
+// Byte stream (e.g. an S3 object body) or an iterator of individual lines
+export type LogLineSource = Readable | AsyncIterable<string>
+
 /**
  * Convert log time from local timezone to UTC ISO string
  * LOG files contain local timestamps for each region, we convert to UTC for database storage
@@ -49,7 +82,8 @@ function convertToUTC(
   hh: string,
   min: string,
   ss: string,
-  region: string
+  region: string,
+  millisecond: number = 0
 ): string {
   const year = parseInt(yyyy)
   const month = parseInt(mm)
@@ -62,7 +96,7 @@ function convertToUTC(
 
   // Create DateTime in the region's local timezone
   const localTime = DateTime.fromObject(
-    { year, month, day, hour, minute, second },
+    { year, month, day, hour, minute, second, millisecond },
     { zone: timezone }
   )
 
@@ -70,265 +104,449 @@ function convertToUTC(
   return localTime.toUTC().toISO()!
 }
 
+/**
+ * Parse a HH:mm:ss:ff timecode into seconds, including the frame fraction
+ */
+function parseTimecodeSeconds(timecode: string): number | null {
+  const match = timecode.match(/^(\d{2}):(\d{2}):(\d{2})[:;.](\d{2})$/)
+  if (!match) return null
+
+  const [, hh, mm, ss, ff] = match
+  const frames = parseInt(ff)
+  if (frames >= FRAMES_PER_SECOND) return null
+
+  return (
+    parseInt(hh) * 3600 +
+    parseInt(mm) * 60 +
+    parseInt(ss) +
+    frames / FRAMES_PER_SECOND
+  )
+}
+
+/**
+ * Resolve the layout option to a spec, detecting it from the file when omitted
+ */
+function resolveLogLayout(
+  layout: LogLayout | string | undefined,
+  lines: string[]
+): LogLayout {
+  if (typeof layout === "string") {
+    const registered = getLogLayout(layout)
+    if (!registered) {
+      throw new Error(`Unknown log layout: ${layout}`)
+    }
+    return registered
+  }
+
+  return layout || detectLogLayout(lines)
+}
+
+/**
+ * Parse a single log line into an entry using the given layout
+ */
+function parseLogLine(
+  line: string,
+  lineNumber: number,
+  layout: LogLayout,
+  region: string
+): LogEntry {
+  const { columns } = layout
+
+  const marketChannel = readColumn(line, columns.marketChannel)
+  const dateTimeRaw = readColumn(line, columns.dateTime)
+  const durationRaw = columns.duration ? readColumn(line, columns.duration) : ""
+  const materialKey = readColumn(line, columns.materialKey)
+  const materialType = readColumn(line, columns.materialType)
+  const databaseTitle = readColumn(line, columns.databaseTitle)
+
+  // Parse date/time: YYYYMMDD HH:mm:ss:ff format (e.g., "20260104 06:00:00:02")
+  let dateTime: string | null = null
+  let localDateTime: string | null = null
+  let timeStr: string | null = null
+  let frames: number | null = null
+
+  if (dateTimeRaw && dateTimeRaw.length >= 17) {
+    try {
+      // Split by space to get date and time parts
+      const parts = dateTimeRaw.split(" ")
+      if (parts.length >= 2) {
+        const datePart = parts[0] // YYYYMMDD
+        const timePart = parts[1] // HH:mm:ss:ff
+
+        // Extract date components (YYYYMMDD format)
+        if (datePart.length >= 8) {
+          const yyyy = datePart.substring(0, 4)
+          const mm = datePart.substring(4, 6)
+          const dd = datePart.substring(6, 8)
+
+          // Extract time components, keeping frames for sub-second precision
+          const timeComponents = timePart.split(":")
+          if (timeComponents.length >= 3) {
+            const hh = timeComponents[0]
+            const min = timeComponents[1]
+            const ss = timeComponents[2]
+            const ff =
+              timeComponents.length >= 4 ? parseInt(timeComponents[3]) : 0
+            frames = !isNaN(ff) && ff < FRAMES_PER_SECOND ? ff : 0
+
+            // Store local time
+            localDateTime = `${yyyy}-${mm}-${dd}T${hh}:${min}:${ss}`
+            timeStr = `${hh}:${min}:${ss}`
+
+            // Convert to UTC based on region
+            const utcDateTime = convertToUTC(
+              yyyy,
+              mm,
+              dd,
+              hh,
+              min,
+              ss,
+              region,
+              Math.round((frames * 1000) / FRAMES_PER_SECOND)
+            )
+            dateTime = utcDateTime
+          }
+        }
+      }
+    } catch (e) {
+      // Ignore parsing errors
+    }
+  }
+
+  // Parse duration and compute end time from the frame-accurate start
+  const durationSeconds = durationRaw ? parseTimecodeSeconds(durationRaw) : null
+  let endDateTime: string | null = null
+  if (dateTime && durationSeconds !== null) {
+    endDateTime = new Date(
+      new Date(dateTime).getTime() + Math.round(durationSeconds * 1000)
+    ).toISOString()
+  }
+
+  // Determine if this is a billboard (Type I with OB/MB/CB prefix)
+  const isBillboard =
+    materialType === "I" &&
+    databaseTitle &&
+    (databaseTitle.startsWith("OB") ||
+      databaseTitle.startsWith("MB") ||
+      databaseTitle.startsWith("CB"))
+
+  // Determine billboard type
+  let billboardType:
+    | "Open Billboard"
+    | "Middle Billboard"
+    | "Close Billboard"
+    | null = null
+  if (isBillboard) {
+    if (databaseTitle.startsWith("OB")) {
+      billboardType = "Open Billboard"
+    } else if (databaseTitle.startsWith("MB")) {
+      billboardType = "Middle Billboard"
+    } else if (databaseTitle.startsWith("CB")) {
+      billboardType = "Close Billboard"
+    }
+  }
+
+  return {
+    lineNumber,
+    marketChannel,
+    dateTime,
+    localDateTime,
+    time: timeStr,
+    frames,
+    duration: durationSeconds !== null ? durationRaw : null,
+    durationSeconds,
+    endDateTime,
+    materialKey,
+    materialType,
+    databaseTitle,
+    isBillboard,
+    billboardType,
+    rawLine: line.trim(),
+  }
+}
+
+/**
+ * Parse one raw line, skipping blanks and headers and rejecting lines that
+ * don't fit the layout
+ */
+function processLine(
+  rawLine: string,
+  lineNumber: number,
+  layout: LogLayout,
+  region: string
+): { entry: LogEntry } | { rejected: RejectedLine } | null {
+  const line = rawLine.replace(/\r$/, "")
+
+  // Skip empty lines and layout headers
+  if (!line.trim() || layout.headerPattern?.test(line)) {
+    return null
+  }
+
+  // Ensure line is long enough to contain all columns we need
+  if (line.length < layout.minLineLength) {
+    return {
+      rejected: {
+        lineNumber,
+        reason: `Line length ${line.length} is shorter than the ${layout.minLineLength} required by layout "${layout.name}"`,
+      },
+    }
+  }
+
+  try {
+    return { entry: parseLogLine(line, lineNumber, layout, region) }
+  } catch (error) {
+    console.warn(`Warning: Error parsing line ${lineNumber}:`, error)
+    return {
+      rejected: {
+        lineNumber,
+        reason: error instanceof Error ? error.message : "Unknown parse error",
+      },
+    }
+  }
+}
+
 /**
  * Parse AS RUN billboard log files (fixed-width column format).
  *
  * @param logFileContent - Content of the .LOG file as a string
- * @param region - Region code (SYD, MEL, BNE, PER, ADL) for timezone conversion
+ * @param region - Region code from the market catalogue, for timezone conversion
+ * @param options - Column layout (or registered layout name); detected from
+ *   the file when omitted. See logLayouts.ts for the default layout.
  *
  * @returns Object containing parsed entries:
  * {
- *   billboards: [],  // Type I entries with OB/MB/CB prefix
- *   programs: [],    // Type M/S entries (program segments)
- *   allEntries: []   // All parsed entries
+ *   billboards: [],     // Type I entries with OB/MB/CB prefix
+ *   programs: [],       // Type M/S entries (program segments)
+ *   allEntries: [],     // All parsed entries
+ *   layout: "as-run",   // Name of the layout used
+ *   rejectedCount: 0,   // Lines that didn't fit the layout
+ *   rejectedLines: []   // Line number and reason for each rejected line
  * }
- *
- * Column specifications:
- * - Column 1 (6 chars): market-channel combination
- * - Column 56 (20 chars): Date/Time - YYYYMMDD HH:mm:ss:ff
- * - Column 120 (32 chars): Material Key (unique identifier)
- * - Column 189 (1 char): Material Type (I=billboard, M/S=program)
- * - Column 296 (64 chars): Database Title
  */
 export function parseLogs(
   logFileContent: string,
-  region: string
-): ParsedLogData {
-  const result: ParsedLogData = {
+  region: string,
+  options: ParseLogsOptions = {}
+): ParsedLogFile {
+  const lines = logFileContent.split("\n")
+  const layout = resolveLogLayout(options.layout, lines)
+
+  const result: ParsedLogFile = {
     billboards: [],
     programs: [],
     allEntries: [],
+    layout: layout.name,
+    rejectedCount: 0,
+    rejectedLines: [],
   }
 
-  const lines = logFileContent.split("\n")
-
   for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-    const line = lines[lineNum]
-
-    // Skip empty lines
-    if (!line.trim()) {
+    const processed = processLine(lines[lineNum], lineNum + 1, layout, region)
+    if (!processed) {
       continue
     }
 
-    // Ensure line is long enough to contain all columns we need
-    if (line.length < 360) {
-      // 296 + 64 = 360 minimum
+    if ("rejected" in processed) {
+      result.rejectedCount++
+      result.rejectedLines.push(processed.rejected)
       continue
     }
 
-    try {
-      // Extract fixed-width columns (0-indexed, so subtract 1 from column numbers)
-
-      // Column 1 (0-5): market-channel
-      const marketChannel = line.substring(0, 6).trim()
-
-      // Column 56 (55-74): Date/Time - yyMMdd HH:mm:ss:ff
-      const dateTimeRaw = line.substring(55, 75).trim()
-
-      // Column 120 (119-150): Material Key
-      const materialKey = line.substring(119, 151).trim()
-
-      // Column 189 (188): Material Type
-      const materialType = line.length > 188 ? line[188] : ""
-
-      // Column 296 (295-358): Database Title
-      const databaseTitle =
-        line.length > 295 ? line.substring(295, 359).trim() : ""
-
-      // Parse date/time: YYYYMMDD HH:mm:ss:ff format (e.g., "20260104 06:00:00:02")
-      let dateTime: string | null = null
-      let localDateTime: string | null = null
-      let timeStr: string | null = null
-
-      if (dateTimeRaw && dateTimeRaw.length >= 17) {
-        try {
-          // Split by space to get date and time parts
-          const parts = dateTimeRaw.split(" ")
-          if (parts.length >= 2) {
-            const datePart = parts[0] // YYYYMMDD
-            const timePart = parts[1] // HH:mm:ss:ff
-
-            // Extract date components (YYYYMMDD format)
-            if (datePart.length >= 8) {
-              const yyyy = datePart.substring(0, 4)
-              const mm = datePart.substring(4, 6)
-              const dd = datePart.substring(6, 8)
-
-              // Extract time components (remove frames)
-              const timeComponents = timePart.split(":")
-              if (timeComponents.length >= 3) {
-                const hh = timeComponents[0]
-                const min = timeComponents[1]
-                const ss = timeComponents[2]
-
-                // Store local time
-                localDateTime = `${yyyy}-${mm}-${dd}T${hh}:${min}:${ss}`
-                timeStr = `${hh}:${min}:${ss}`
-
-                // Convert to UTC based on region
-                const utcDateTime = convertToUTC(
-                  yyyy,
-                  mm,
-                  dd,
-                  hh,
-                  min,
-                  ss,
-                  region
-                )
-                dateTime = utcDateTime
-              }
-            }
-          }
-        } catch (e) {
-          // Ignore parsing errors
-        }
-      }
-
-      // Determine if this is a billboard (Type I with OB/MB/CB prefix)
-      const isBillboard =
-        materialType === "I" &&
-        databaseTitle &&
-        (databaseTitle.startsWith("OB") ||
-          databaseTitle.startsWith("MB") ||
-          databaseTitle.startsWith("CB"))
-
-      // Determine billboard type
-      let billboardType:
-        | "Open Billboard"
-        | "Middle Billboard"
-        | "Close Billboard"
-        | null = null
-      if (isBillboard) {
-        if (databaseTitle.startsWith("OB")) {
-          billboardType = "Open Billboard"
-        } else if (databaseTitle.startsWith("MB")) {
-          billboardType = "Middle Billboard"
-        } else if (databaseTitle.startsWith("CB")) {
-          billboardType = "Close Billboard"
-        }
-      }
-
-      // Create entry
-      const entry: LogEntry = {
-        lineNumber: lineNum + 1,
-        marketChannel,
-        dateTime,
-        localDateTime,
-        time: timeStr,
-        materialKey,
-        materialType,
-        databaseTitle,
-        isBillboard,
-        billboardType,
-        rawLine: line.trim(),
-      }
+    const { entry } = processed
 
-      // Add to appropriate lists
-      result.allEntries.push(entry)
+    // Add to appropriate lists
+    result.allEntries.push(entry)
 
-      if (isBillboard) {
-        result.billboards.push(entry)
-      } else if (materialType === "M" || materialType === "S") {
-        result.programs.push(entry)
-      }
-    } catch (error) {
-      console.warn(`Warning: Error parsing line ${lineNum + 1}:`, error)
-      continue
+    if (entry.isBillboard) {
+      result.billboards.push(entry)
+    } else if (entry.materialType === "M" || entry.materialType === "S") {
+      result.programs.push(entry)
     }
   }
 
-  console.log("✅ Parsed log file:")
+  console.log(`✅ Parsed log file (layout: ${layout.name}):`)
   console.log(`   Total entries: ${result.allEntries.length}`)
   console.log(`   Billboards: ${result.billboards.length}`)
   console.log(`   Programs: ${result.programs.length}`)
+  console.log(`   Rejected lines: ${result.rejectedCount}`)
 
   return result
 }
 
+/**
+ * Split a byte stream into lines, decoding with the given encoding.
+ * Handles both LF and CRLF line endings and multi-byte characters split
+ * across chunks.
+ */
+async function* readLines(
+  source: LogLineSource,
+  encoding: string
+): AsyncGenerator<string> {
+  if (!(source instanceof Readable)) {
+    for await (const line of source) {
+      yield line.replace(/\r$/, "")
+    }
+    return
+  }
+
+  const decoder = new TextDecoder(encoding)
+  let pending = ""
+
+  for await (const chunk of source) {
+    pending +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk as Buffer, { stream: true })
+
+    const lines = pending.split(/\r?\n/)
+    pending = lines.pop() ?? ""
+    yield* lines
+  }
+
+  pending += decoder.decode()
+  if (pending) {
+    yield pending.replace(/\r$/, "")
+  }
+}
+
+/**
+ * Streaming variant of parseLogs() for large multi-day files. Entries are
+ * yielded as each line is read, so memory stays flat regardless of file size.
+ *
+ * When no layout is given, the first lines are buffered to detect it before
+ * any entries are yielded.
+ *
+ * @param source - Readable byte stream or async iterator of lines
+ * @param region - Region code from the market catalogue, for timezone conversion
+ * @param options - Layout, encoding (default utf-8) and layout/rejection callbacks
+ */
+export async function* parseLogsStream(
+  source: LogLineSource,
+  region: string,
+  options: ParseLogsStreamOptions = {}
+): AsyncGenerator<LogEntry> {
+  const lines = readLines(source, options.encoding || "utf-8")
+
+  // Buffer enough lines to detect the layout
+  const buffered: string[] = []
+  let layout: LogLayout | null =
+    typeof options.layout === "string"
+      ? resolveLogLayout(options.layout, [])
+      : options.layout || null
+
+  if (!layout) {
+    let sampled = 0
+    while (sampled < DETECTION_SAMPLE_SIZE) {
+      const next = await lines.next()
+      if (next.done) break
+      buffered.push(next.value)
+      if (next.value.trim()) sampled++
+    }
+    layout = detectLogLayout(buffered)
+  }
+
+  const activeLayout = layout
+  options.onLayout?.(activeLayout)
+  let lineNumber = 0
+
+  const handleLine = (line: string): LogEntry | null => {
+    lineNumber++
+    const processed = processLine(line, lineNumber, activeLayout, region)
+    if (!processed) return null
+
+    if ("rejected" in processed) {
+      options.onRejectedLine?.(processed.rejected, activeLayout)
+      return null
+    }
+
+    if (!options.includeRawLine) {
+      delete processed.entry.rawLine
+    }
+    return processed.entry
+  }
+
+  for (const line of buffered) {
+    const entry = handleLine(line)
+    if (entry) yield entry
+  }
+
+  for await (const line of lines) {
+    const entry = handleLine(line)
+    if (entry) yield entry
+  }
+}
+
 /**
  * Get all billboards associated with a specific program by finding billboards
  * that aired during the program's broadcast time.
  *
+ * Consecutive program entries matching the program form one run, so billboards
+ * in the breaks between segments are included. A run ends at its last segment's
+ * parsed end time, falling back to the next program entry's start when the log
+ * has no duration for that segment.
+ *
  * @param logData - Parsed log data from parseLogs()
- * @param programKeyword - Keyword to search for in program titles (e.g., "UNITED CUP")
+ * @param program - Keyword to search for in program titles (e.g., "UNITED CUP"),
+ *   or a matcher from createProgramMatcher() for programs with match rules
  *
  * @returns List of billboard entries that aired during the program
  */
 export function getBillboardsForProgram(
   logData: ParsedLogData,
-  programKeyword: string
+  program: string | EntryMatcher
 ): LogEntry[] {
   const matchingBillboards: LogEntry[] = []
+  const matchesProgram =
+    typeof program === "string" ? createProgramMatcher(program) : program
+
+  // Build time windows from runs of consecutive matching program entries
+  const windows: Array<{ start: number; end: number | null }> = []
+  let runStart: LogEntry | null = null
+  let runEnd: LogEntry | null = null
+
+  const closeRun = (nextProgram: LogEntry | null) => {
+    if (!runStart || !runEnd || !runStart.dateTime) return
+
+    let end: number | null = null
+    if (runEnd.endDateTime) {
+      end = new Date(runEnd.endDateTime).getTime()
+    } else if (nextProgram?.dateTime) {
+      end = new Date(nextProgram.dateTime).getTime()
+    }
 
-  // First, find all program instances matching the keyword
-  const programInstances = logData.programs.filter((program) =>
-    program.databaseTitle.toUpperCase().includes(programKeyword.toUpperCase())
-  )
+    windows.push({ start: new Date(runStart.dateTime).getTime(), end })
+  }
+
+  for (const entry of logData.programs) {
+    if (matchesProgram(entry)) {
+      if (!runStart) runStart = entry
+      runEnd = entry
+    } else if (runStart) {
+      closeRun(entry)
+      runStart = null
+      runEnd = null
+    }
+  }
+  closeRun(null)
 
-  if (programInstances.length === 0) {
+  if (windows.length === 0) {
     return matchingBillboards
   }
 
-  // For each program instance, find billboards that aired during it
-  for (const program of programInstances) {
-    if (!program.time) {
+  // Find billboards in each program window
+  for (const billboard of logData.billboards) {
+    if (!billboard.dateTime) {
       continue
     }
 
-    // Convert program start time to seconds
-    const progParts = program.time.split(":")
-    const progSeconds =
-      parseInt(progParts[0]) * 3600 +
-      parseInt(progParts[1]) * 60 +
-      parseInt(progParts[2])
-
-    // Find the next program entry in all_entries to determine end time
-    const programLine = program.lineNumber
-    let nextProgSeconds: number | null = null
-
-    for (const entry of logData.allEntries) {
-      if (
-        entry.lineNumber > programLine &&
-        (entry.materialType === "M" || entry.materialType === "S")
-      ) {
-        if (entry.time) {
-          const nextParts = entry.time.split(":")
-          nextProgSeconds =
-            parseInt(nextParts[0]) * 3600 +
-            parseInt(nextParts[1]) * 60 +
-            parseInt(nextParts[2])
-          break
-        }
-      }
-    }
+    const airTime = new Date(billboard.dateTime).getTime()
+    const inWindow = windows.some(
+      (window) =>
+        airTime >= window.start && (window.end === null || airTime < window.end)
+    )
 
-    // Find billboards in this time window
-    for (const billboard of logData.billboards) {
-      if (!billboard.time) {
-        continue
-      }
-
-      const bbParts = billboard.time.split(":")
-      const bbSeconds =
-        parseInt(bbParts[0]) * 3600 +
-        parseInt(bbParts[1]) * 60 +
-        parseInt(bbParts[2])
-
-      // Check if billboard is between program start and next program
-      if (nextProgSeconds !== null) {
-        if (progSeconds <= bbSeconds && bbSeconds < nextProgSeconds) {
-          if (!matchingBillboards.includes(billboard)) {
-            matchingBillboards.push(billboard)
-          }
-        }
-      } else {
-        // No next program found, include all billboards after this program
-        if (bbSeconds >= progSeconds) {
-          if (!matchingBillboards.includes(billboard)) {
-            matchingBillboards.push(billboard)
-          }
-        }
-      }
+    if (inWindow) {
+      matchingBillboards.push(billboard)
     }
   }
 
@@ -0,0 +1,97 @@
+import { LogEntry } from "./logParser"
+
+// Mirrors the MatchRuleType enum in the Prisma schema
+export type MatchRuleType =
+  | "KEYWORD" // Title contains the pattern (legacy Program.keyword behaviour)
+  | "EXACT" // Title equals the pattern
+  | "PREFIX" // Title starts with the pattern
+  | "REGEX" // Title matches the pattern as a regular expression
+  | "MATERIAL_KEY_PREFIX" // Material key starts with the pattern
+
+export interface MatchRule {
+  type: MatchRuleType
+  pattern: string
+  exclude?: boolean // Entries matching an exclusion rule never match
+  channel?: string | null // Only applies to this channel when set
+  region?: string | null // Only applies to this region when set
+}
+
+export interface MatchScope {
+  channel?: string
+  region?: string
+}
+
+export type EntryMatcher = (entry: LogEntry) => boolean
+
+// Build a test for a single rule. Text comparisons ignore case and padding.
+function compileRule(rule: MatchRule): EntryMatcher {
+  const pattern = rule.pattern.trim().toUpperCase()
+
+  switch (rule.type) {
+    case "KEYWORD":
+      return (entry) => entry.databaseTitle.toUpperCase().includes(pattern)
+    case "EXACT":
+      return (entry) => entry.databaseTitle.trim().toUpperCase() === pattern
+    case "PREFIX":
+      return (entry) =>
+        entry.databaseTitle.trim().toUpperCase().startsWith(pattern)
+    case "MATERIAL_KEY_PREFIX":
+      return (entry) =>
+        entry.materialKey.trim().toUpperCase().startsWith(pattern)
+    case "REGEX": {
+      let regex: RegExp
+      try {
+        regex = new RegExp(rule.pattern, "i")
+      } catch (error) {
+        console.warn(`⚠️  Invalid match rule regex: ${rule.pattern}`, error)
+        return () => false
+      }
+      return (entry) => regex.test(entry.databaseTitle.trim())
+    }
+    default:
+      console.warn(`⚠️  Unknown match rule type: ${rule.type}`)
+      return () => false
+  }
+}
+
+// A rule without a channel or region applies everywhere
+function inScope(rule: MatchRule, scope: MatchScope): boolean {
+  if (rule.channel && scope.channel && rule.channel !== scope.channel) {
+    return false
+  }
+  if (rule.region && scope.region && rule.region !== scope.region) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Build a matcher that decides whether a log entry belongs to a program.
+ *
+ * An entry matches when any in-scope include rule matches and no in-scope
+ * exclusion rule does. Programs without include rules fall back to a
+ * substring match on their keyword.
+ *
+ * @param keyword - Program.keyword, used when there are no include rules
+ * @param rules - Program match rules
+ * @param scope - Channel and region of the log being matched
+ */
+export function createProgramMatcher(
+  keyword: string,
+  rules: MatchRule[] = [],
+  scope: MatchScope = {}
+): EntryMatcher {
+  const includeRules = rules.filter((rule) => !rule.exclude)
+  const excludes = rules
+    .filter((rule) => rule.exclude && inScope(rule, scope))
+    .map(compileRule)
+
+  const includes =
+    includeRules.length > 0
+      ? includeRules.filter((rule) => inScope(rule, scope)).map(compileRule)
+      : [compileRule({ type: "KEYWORD", pattern: keyword })]
+
+  return (entry) =>
+    includes.some((matches) => matches(entry)) &&
+    !excludes.some((matches) => matches(entry))
+}
@@ -1,239 +1,327 @@
 import {
   SageMakerClient,
-  CreatePipelineCommand,
   StartPipelineExecutionCommand,
 } from "@aws-sdk/client-sagemaker"
+import { PrismaClient, PipelineRunStatus, PipelineType } from "@prisma/client"
+import {
+  budgetRefusal,
+  CostEstimate,
+  estimateRunCost,
+} from "../shared/costEstimate"
+import {
+  LauncherConfig,
+  loadLauncherConfig,
+  verifySecretReference,
+} from "../shared/launcherConfig"
+import { logError, logEvent } from "../shared/logging"
+import { getChannel, getRegion } from "../shared/markets"
+import { errorResponse, internalErrorResponse } from "../shared/responses"
+import {
+  array,
+  boolean,
+  channelCode,
+  instanceType,
+  literal,
+  number,
+  object,
+  oneOf,
+  optional,
+  regionCode,
+  retryOptions,
+  Schema,
+  spotOptions,
+  string,
+  validate,
+  validationErrorResponse,
+} from "../shared/validation"
+import {
+  pipelineVariantName,
+  resolveRunSettings,
+  RetryOptions,
+  SpotOptions,
+} from "../shared/pipelineDefinition"
+import { runBudgets } from "../shared/budgets"
+import { ensurePipeline } from "../shared/ensurePipeline"
+import { createSecretStore } from "../shared/secretStore"
+import { deleteLegacyPipelines } from "./legacyPipelines"
+import { integrationsPipelineDefinition } from "./pipeline"
+import { resolveStages, Stage, STAGES } from "./stages"
+
+// Initialize Prisma client
+const prisma = new PrismaClient()
 
 // Initialize SageMaker client outside handler for connection reuse
 const sagemakerClient = new SageMakerClient({
   region: process.env.AWS_REGION || "ap-southeast-2",
 })
 
-interface LambdaEvent {
+// Checks the database secret reference before a launch
+const secretStore = createSecretStore(
+  process.env.AWS_REGION || "ap-southeast-2"
+)
+
+// One pipeline serves every broadcast; runs differ only in parameter values.
+// Requests with non-default retry or spot settings, or a subset of stages,
+// use a variant of it.
+const PIPELINE_NAME =
+  process.env.INTEGRATIONS_PIPELINE_NAME || "integrations-analysis"
+
+// Stored as PipelineRun.request, so a JSON-compatible type
+type LambdaEvent = {
   broadcastId: string
   channel: string
   region: string
   downloadInstanceType?: string
   inferenceInstanceType?: string
+  retry?: RetryOptions // Applies to every step
+  spot?: Partial<SpotOptions> // Applies to the GPU inference step
+  stages?: Stage[] // Defaults to every stage
+  forceDownload?: boolean // Download even if media is already in S3
+  overrideBudget?: boolean // Launch even if the estimate exceeds a budget
+}
+
+interface CleanupEvent {
+  cleanupLegacyPipelines: true
+  dryRun?: boolean
+  limit?: number
+}
+
+const eventSchema: Schema<LambdaEvent> = object({
+  broadcastId: string(),
+  channel: channelCode(),
+  region: regionCode(),
+  downloadInstanceType: optional(instanceType()),
+  inferenceInstanceType: optional(instanceType()),
+  retry: optional(retryOptions()),
+  spot: optional(spotOptions()),
+  stages: optional(array(oneOf(STAGES), { minItems: 1 })),
+  forceDownload: optional(boolean()),
+  overrideBudget: optional(boolean()),
+})
+
+const cleanupEventSchema: Schema<CleanupEvent> = object({
+  cleanupLegacyPipelines: literal(true),
+  dryRun: optional(boolean()),
+  limit: optional(number({ min: 1, integer: true })),
+})
+
+interface PipelineRunRecord {
+  pipelineName: string
+  executionArn: string
+  broadcastId: string
+  channel: string
+  region: string
+  instanceTypes: Record<string, string>
+  spotTraining: boolean
+  request: LambdaEvent // Relaunched on-demand if spot capacity runs out
+  estimate: CostEstimate
 }
 
-export const handler = async (event: LambdaEvent) => {
+// The pipeline is already running, so a failed write is logged rather than
+// reported as a failed launch
+async function recordPipelineRun({
+  request,
+  estimate,
+  ...run
+}: PipelineRunRecord): Promise<void> {
   try {
-    const {
-      broadcastId,
-      channel,
-      region,
-      downloadInstanceType = "ml.t3.large",
-      inferenceInstanceType = "ml.g5.xlarge",
-    } = event
-
-    // Build steps array dynamically
-    const steps: object[] = [
-      {
-        Name: `download-${channel}-${region}`,
-        Type: "Training",
-        Arguments: {
-          AlgorithmSpecification: {
-            TrainingImage:
-              "763104351884.dkr.ecr.ap-southeast-2.amazonaws.com/pytorch-training:2.0.0-gpu-py310",
-            TrainingInputMode: "File",
-          },
-          RoleArn: process.env.ROLE_ARN!,
-          OutputDataConfig: {
-            S3OutputPath: `s3://${process.env.S3_BUCKET}/pipeline-downloads/${broadcastId}/`,
-          },
-          ResourceConfig: {
-            InstanceType: downloadInstanceType,
-            InstanceCount: 1,
-            VolumeSizeInGB: 100,
-          },
-          StoppingCondition: {
-            MaxRuntimeInSeconds: 10 * 3600,
-          },
-          HyperParameters: {
-            sagemaker_program: "main.py",
-            sagemaker_submit_directory: `s3://${process.env.S3_BUCKET}/download-script/sourcedir.tar.gz`,
-          },
-          Environment: {
-            BROADCAST_ID: broadcastId,
-            CHANNEL: channel.toLowerCase(),
-            STREAM_REGION: region.toLowerCase(),
-            DB_CONNECTION_STRING: process.env.DATABASE_URL!,
-            AWS_REGION: process.env.AWS_REGION || "ap-southeast-2",
-          },
-        },
-      },
-    ]
-
-    steps.push({
-      Name: `integration-analysis-${channel}`,
-      Type: "Training",
-      DependsOn: [`download-${channel}-${region}`],
-      Arguments: {
-        AlgorithmSpecification: {
-          TrainingImage:
-            "763104351884.dkr.ecr.ap-southeast-2.amazonaws.com/pytorch-training:2.5.1-gpu-py311",
-          TrainingInputMode: "File",
-        },
-        RoleArn: process.env.ROLE_ARN!,
-        OutputDataConfig: {
-          S3OutputPath: `s3://${process.env.S3_BUCKET}/pipeline-inference/${broadcastId}/${channel}/`,
-        },
-        ResourceConfig: {
-          InstanceType: inferenceInstanceType,
-          InstanceCount: 1,
-          VolumeSizeInGB: 100,
-        },
-        StoppingCondition: {
-          MaxRuntimeInSeconds: 30 * 3600,
-        },
-        HyperParameters: {
-          sagemaker_program: "main.py",
-          sagemaker_submit_directory: `s3://${process.env.S3_BUCKET}/inference-scripts/sourcedir.tar.gz`,
-        },
-        Environment: {
-          BROADCAST_ID: broadcastId,
-          CHANNEL: channel.toLowerCase(),
-          STREAM_REGION: region.toLowerCase(),
-          DB_CONNECTION_STRING: process.env.DATABASE_URL!,
-          AWS_REGION: process.env.AWS_REGION || "ap-southeast-2",
-        },
+    await prisma.pipelineRun.create({
+      data: {
+        type: PipelineType.INTEGRATIONS,
+        ...run,
+        request,
+        mediaSeconds: estimate.mediaSeconds,
+        estimatedCost: estimate.total,
+        costEstimate: estimate,
       },
     })
+  } catch (error) {
+    console.error(
+      `⚠️  Failed to record pipeline run ${run.executionArn}:`,
+      error
+    )
+  }
+}
 
-    steps.push({
-      Name: `audio-integration-analysis-${channel}`,
-      Type: "Training",
-      Arguments: {
-        AlgorithmSpecification: {
-          TrainingImage:
-            "763104351884.dkr.ecr.ap-southeast-2.amazonaws.com/pytorch-training:2.5.1-gpu-py311",
-          TrainingInputMode: "File",
-        },
-        RoleArn: process.env.ROLE_ARN!,
-        OutputDataConfig: {
-          S3OutputPath: `s3://${process.env.S3_BUCKET}/pipeline-audio-analysis/${broadcastId}/${channel}/`,
-        },
-        ResourceConfig: {
-          InstanceType: "ml.t3.large",
-          InstanceCount: 1,
-          VolumeSizeInGB: 100,
-        },
-        StoppingCondition: {
-          MaxRuntimeInSeconds: 30 * 3600,
-        },
-        HyperParameters: {
-          sagemaker_program: "main.py",
-          sagemaker_submit_directory: `s3://${process.env.S3_BUCKET}/audio-integration-analysis-scripts/sourcedir.tar.gz`,
-        },
-        Environment: {
-          BROADCAST_ID: broadcastId,
-          CHANNEL: channel.toLowerCase(),
-          STREAM_REGION: region.toLowerCase(),
-          DB_CONNECTION_STRING: process.env.DATABASE_URL!,
-          AWS_REGION: process.env.AWS_REGION || "ap-southeast-2",
-        },
-      },
-    })
+// Step runtime per second of broadcast, until enough runs have been recorded
+const DEFAULT_RUNTIME_RATIOS: Record<Stage, number> = {
+  download: 0.25,
+  "integration-analysis": 1.0,
+  "audio-integration-analysis": 0.5,
+  "cleanup-broadcast": 0.02,
+}
 
-    // Add cleanup step - depends on both analysis steps
-    const lastStep = [
-      `integration-analysis-${channel}`,
-      `audio-integration-analysis-${channel}`,
-    ]
-
-    steps.push({
-      Name: `cleanup-broadcast-${channel}-${region}`,
-      Type: "Training",
-      DependsOn: lastStep,
-      Arguments: {
-        AlgorithmSpecification: {
-          TrainingImage:
-            "763104351884.dkr.ecr.ap-southeast-2.amazonaws.com/pytorch-training:2.0.0-gpu-py310",
-          TrainingInputMode: "File",
-        },
-        RoleArn: process.env.ROLE_ARN!,
-        OutputDataConfig: {
-          S3OutputPath: `s3://${process.env.S3_BUCKET}/pipeline-cleanup/${broadcastId}/`,
-        },
-        ResourceConfig: {
-          InstanceType: "ml.t3.large",
-          InstanceCount: 1,
-          VolumeSizeInGB: 30,
-        },
-        StoppingCondition: {
-          MaxRuntimeInSeconds: 1800,
-        },
-        HyperParameters: {
-          sagemaker_program: "main.py",
-          sagemaker_submit_directory: `s3://${process.env.S3_BUCKET}/post-inference-script/sourcedir.tar.gz`,
-        },
-        Environment: {
-          BROADCAST_ID: broadcastId,
-          CHANNEL: channel.toLowerCase(),
-          STREAM_REGION: region.toLowerCase(),
-          AWS_REGION: process.env.AWS_REGION || "ap-southeast-2",
-        },
-      },
-    })
+// Successful runs used for historical runtime ratios
+const RUNTIME_HISTORY_RUNS = 50
 
-    const pipelineDefinition = {
-      Version: "2020-12-01",
-      Metadata: {},
-      Parameters: [
-        {
-          Name: "BroadcastId",
-          Type: "String",
-          DefaultValue: broadcastId,
-        },
-      ],
-      PipelineExperimentConfig: {
-        ExperimentName: `analysis-experiment-${broadcastId}`,
-        TrialName: `analysis-trial-${Date.now()}`,
-      },
-      Steps: steps,
-    }
+async function startAnalysis(event: LambdaEvent) {
+  const {
+    broadcastId,
+    channel,
+    region,
+    downloadInstanceType = "ml.t3.large",
+    inferenceInstanceType = "ml.g5.xlarge",
+  } = event
 
-    const pipelineName = `analysis-pipeline-${broadcastId}-${Date.now()}`
+  let config: LauncherConfig
+  try {
+    config = loadLauncherConfig()
+    await verifySecretReference(secretStore, config.databaseSecret)
+  } catch (error) {
+    console.error("❌ Launcher configuration:", error)
+    return errorResponse(
+      "CONFIGURATION_ERROR",
+      error instanceof Error ? error.message : "Unknown error"
+    )
+  }
 
-    // Create the pipeline
-    const createPipelineCommand = new CreatePipelineCommand({
-      PipelineName: pipelineName,
-      PipelineDefinition: JSON.stringify(pipelineDefinition),
-      PipelineDescription: `Analysis pipeline for broadcast ${broadcastId}`,
-      RoleArn: process.env.ROLE_ARN!,
-    })
+  // Stream fragments come from the market catalogue (validated above)
+  const channelConfig = getChannel(channel)!
+  const regionConfig = getRegion(region)!
 
-    await sagemakerClient.send(createPipelineCommand)
+  const broadcast = await prisma.broadcast.findUnique({
+    where: { id: broadcastId },
+    include: { day: { include: { program: true } } },
+  })
+  if (!broadcast) {
+    return errorResponse("NOT_FOUND", `Broadcast not found: ${broadcastId}`)
+  }
 
-    // Start pipeline execution
-    const executionName = `execution-${broadcastId}-${Date.now()}`
-    const startExecutionCommand = new StartPipelineExecutionCommand({
-      PipelineName: pipelineName,
-      PipelineExecutionDisplayName: executionName,
-      PipelineParameters: [{ Name: "BroadcastId", Value: broadcastId }],
-    })
+  // Skip the download when an earlier run's media can be reused
+  const resolution = await resolveStages(config.bucket, broadcastId, event)
+  if (resolution.issue) {
+    return validationErrorResponse([resolution.issue])
+  }
+  const { stages, reusedDownload } = resolution
+
+  const settings = resolveRunSettings(event)
+  const pipelineName = pipelineVariantName(
+    PIPELINE_NAME,
+    settings,
+    stages.length === STAGES.length ? {} : { stages }
+  )
+
+  const definition = integrationsPipelineDefinition(config, settings, stages)
+  const parameters: Record<string, string> = {
+    BroadcastId: broadcastId,
+    Channel: channelConfig.code,
+    StreamChannel: channelConfig.stream,
+    StreamRegion: regionConfig.stream,
+    DownloadInstanceType: downloadInstanceType,
+    InferenceInstanceType: inferenceInstanceType,
+  }
+
+  // Estimate the run's cost and check it against the program and day budgets
+  const history = await prisma.pipelineRun.findMany({
+    where: {
+      type: PipelineType.INTEGRATIONS,
+      status: PipelineRunStatus.SUCCEEDED,
+      mediaSeconds: { not: null },
+    },
+    select: { mediaSeconds: true, steps: true },
+    orderBy: { startedAt: "desc" },
+    take: RUNTIME_HISTORY_RUNS,
+  })
+  const estimate = estimateRunCost({
+    definition,
+    parameters,
+    mediaSeconds: Math.round(
+      (broadcast.endTime.getTime() - broadcast.startTime.getTime()) / 1000
+    ),
+    defaultRatios: DEFAULT_RUNTIME_RATIOS,
+    history,
+  })
+  console.log(
+    `💰 Estimated cost ${estimate.total.toFixed(2)} ${estimate.currency} for ${broadcast.name}`
+  )
+
+  const refusal = budgetRefusal(
+    estimate,
+    await runBudgets(prisma, broadcast.day)
+  )
+  if (refusal && !event.overrideBudget) {
+    console.log(`🛑 ${refusal}`)
+    return errorResponse("BUDGET_EXCEEDED", refusal, { estimate })
+  }
 
-    const executionResponse = await sagemakerClient.send(startExecutionCommand)
-
-    return {
-      statusCode: 200,
-      body: JSON.stringify({
-        success: true,
-        pipelineName,
-        executionArn: executionResponse.PipelineExecutionArn,
-        executionName,
-        parallelDownloads: true,
-      }),
+  // Create or update the pipeline if its definition has changed
+  await ensurePipeline(sagemakerClient, {
+    pipelineName,
+    definition,
+    description: "Integration analysis pipeline for broadcasts",
+    roleArn: config.roleArn,
+  })
+
+  // Start pipeline execution
+  const executionName = `execution-${broadcastId}-${Date.now()}`
+  const startExecutionCommand = new StartPipelineExecutionCommand({
+    PipelineName: pipelineName,
+    PipelineExecutionDisplayName: executionName,
+    PipelineParameters: Object.entries(parameters).map(([Name, Value]) => ({
+      Name,
+      Value,
+    })),
+  })
+
+  const executionResponse = await sagemakerClient.send(startExecutionCommand)
+
+  // Record the run so pipeline status events can be traced back to the broadcast
+  await recordPipelineRun({
+    pipelineName,
+    executionArn: executionResponse.PipelineExecutionArn!,
+    broadcastId,
+    channel: channelConfig.code,
+    region: regionConfig.code,
+    instanceTypes: Object.fromEntries(
+      estimate.steps.map(({ step, instanceType }) => [step, instanceType])
+    ),
+    spotTraining: settings.spot.enabled,
+    request: event,
+    estimate,
+  })
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      success: true,
+      pipelineName,
+      executionArn: executionResponse.PipelineExecutionArn,
+      executionName,
+      stages,
+      reusedDownload,
+      estimatedCost: estimate.total,
+      parallelDownloads: true,
+    }),
+  }
+}
+
+export const handler = async (event: LambdaEvent | CleanupEvent) => {
+  logEvent(event)
+
+  try {
+    if (event && "cleanupLegacyPipelines" in event) {
+      const { value: cleanup, issues } = validate(cleanupEventSchema, event)
+      if (issues) {
+        return validationErrorResponse(issues)
+      }
+
+      const result = await deleteLegacyPipelines(sagemakerClient, {
+        dryRun: cleanup.dryRun ?? false,
+        limit: cleanup.limit,
+      })
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ success: true, ...result }),
+      }
     }
-  } catch (error) {
-    console.error("Error starting analysis pipeline:", error)
-    return {
-      statusCode: 500,
-      body: JSON.stringify({
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      }),
+
+    const { value: launch, issues } = validate(eventSchema, event)
+    if (issues) {
+      return validationErrorResponse(issues)
     }
+    return await startAnalysis(launch)
+  } catch (error) {
+    logError("Error starting analysis pipeline", error)
+    return internalErrorResponse(error)
   }
 }
@@ -0,0 +1,103 @@
+import {
+  SageMakerClient,
+  DeletePipelineCommand,
+  ListPipelineExecutionsCommand,
+  ListPipelinesCommand,
+} from "@aws-sdk/client-sagemaker"
+
+// Pipelines created per invocation by the integrations and billboards
+// launchers before they reused a single pipeline, e.g.
+// analysis-pipeline-<broadcastId>-1718000000000
+const LEGACY_PIPELINE_PREFIX = "analysis-pipeline-"
+const LEGACY_PIPELINE_PATTERN = /^analysis-pipeline-.+-\d{13}$/
+
+// Deletions per invocation, so a run finishes well within the Lambda timeout
+const DEFAULT_CLEANUP_LIMIT = 100
+
+interface CleanupOptions {
+  dryRun: boolean
+  limit?: number
+}
+
+interface CleanupResult {
+  dryRun: boolean
+  deleted: string[]
+  skipped: { pipelineName: string; reason: string }[]
+  more: boolean // More legacy pipelines remain; invoke again to continue
+}
+
+// A pipeline with an execution still running is left for a later cleanup
+async function isExecuting(
+  client: SageMakerClient,
+  pipelineName: string
+): Promise<boolean> {
+  const executions = await client.send(
+    new ListPipelineExecutionsCommand({
+      PipelineName: pipelineName,
+      SortBy: "CreationTime",
+      SortOrder: "Descending",
+      MaxResults: 1,
+    })
+  )
+  const status =
+    executions.PipelineExecutionSummaries?.[0]?.PipelineExecutionStatus
+  return status === "Executing" || status === "Stopping"
+}
+
+/**
+ * Delete the timestamped one-off pipelines left behind by earlier launcher
+ * versions. Pipelines with a running execution are skipped.
+ */
+export async function deleteLegacyPipelines(
+  client: SageMakerClient,
+  { dryRun, limit = DEFAULT_CLEANUP_LIMIT }: CleanupOptions
+): Promise<CleanupResult> {
+  const result: CleanupResult = {
+    dryRun,
+    deleted: [],
+    skipped: [],
+    more: false,
+  }
+
+  let nextToken: string | undefined
+  do {
+    const page = await client.send(
+      new ListPipelinesCommand({
+        PipelineNamePrefix: LEGACY_PIPELINE_PREFIX,
+        NextToken: nextToken,
+        MaxResults: 100,
+      })
+    )
+    nextToken = page.NextToken
+
+    for (const summary of page.PipelineSummaries || []) {
+      const pipelineName = summary.PipelineName!
+      if (!LEGACY_PIPELINE_PATTERN.test(pipelineName)) continue
+
+      if (result.deleted.length >= limit) {
+        result.more = true
+        return result
+      }
+
+      if (await isExecuting(client, pipelineName)) {
+        result.skipped.push({ pipelineName, reason: "Execution in progress" })
+        continue
+      }
+
+      if (!dryRun) {
+        await client.send(
+          new DeletePipelineCommand({
+            PipelineName: pipelineName,
+            ClientRequestToken: `cleanup-${pipelineName}`.slice(0, 128),
+          })
+        )
+      }
+      console.log(
+        `🗑️  ${dryRun ? "Would delete" : "Deleted"} legacy pipeline ${pipelineName}`
+      )
+      result.deleted.push(pipelineName)
+    }
+  } while (nextToken)
+
+  return result
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { LauncherConfig } from "../shared/launcherConfig"
+import {
+  PipelineDefinition,
+  resolveRunSettings,
+  TrainingStep,
+} from "../shared/pipelineDefinition"
+import { integrationsPipelineDefinition } from "./pipeline"
+import { STAGES } from "./stages"
+
+const config: LauncherConfig = {
+  roleArn: "arn:aws:iam::123456789012:role/pipeline",
+  bucket: "analysis-bucket",
+  databaseSecret: { source: "ssm", ref: "/analysis/database" },
+}
+
+// Every step is a training step, keyed by name
+const stepsByName = (definition: PipelineDefinition) =>
+  Object.fromEntries(
+    definition.Steps.map((step) => [step.Name, step as TrainingStep])
+  )
+
+describe("integrationsPipelineDefinition", () => {
+  beforeEach(() => {
+    vi.stubEnv("AWS_REGION", "ap-southeast-2")
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("builds every stage on demand", () => {
+    const settings = resolveRunSettings({ spot: { enabled: false } })
+    const definition = integrationsPipelineDefinition(config, settings, [
+      ...STAGES,
+    ])
+    const steps = stepsByName(definition)
+
+    expect(definition.Steps.map((step) => step.Name)).toEqual([...STAGES])
+    expect(steps["integration-analysis"].DependsOn).toEqual(["download"])
+    expect(steps["cleanup-broadcast"].DependsOn).toEqual([
+      "integration-analysis",
+      "audio-integration-analysis",
+    ])
+    for (const step of Object.values(steps)) {
+      expect(step.Arguments.EnableManagedSpotTraining).toBeUndefined()
+      expect(step.RetryPolicies?.map(({ MaxAttempts }) => MaxAttempts)).toEqual(
+        [3, 3]
+      )
+    }
+    // Only steps that touch the database get its secret
+    expect(steps.download.Arguments.Environment).toMatchObject({
+      DB_SECRET_SOURCE: "ssm",
+      DB_SECRET_REF: "/analysis/database",
+    })
+    expect(steps["cleanup-broadcast"].Arguments.Environment).not.toHaveProperty(
+      "DB_SECRET_REF"
+    )
+  })
+
+  it("builds every stage with spot inference and custom retries", () => {
+    const settings = resolveRunSettings({
+      retry: { maxAttempts: 5, intervalSeconds: 60 },
+      spot: { enabled: true, maxWaitTimeInSeconds: 36 * 3600 },
+    })
+    const steps = stepsByName(
+      integrationsPipelineDefinition(config, settings, [...STAGES])
+    )
+
+    const inference = steps["integration-analysis"].Arguments
+    expect(inference.EnableManagedSpotTraining).toBe(true)
+    expect(inference.StoppingCondition).toEqual({
+      MaxRuntimeInSeconds: 30 * 3600,
+      MaxWaitTimeInSeconds: 36 * 3600,
+    })
+    expect(inference.CheckpointConfig?.LocalPath).toBe("/opt/ml/checkpoints")
+    expect(
+      steps["audio-integration-analysis"].Arguments.EnableManagedSpotTraining
+    ).toBeUndefined()
+    expect(steps.download.RetryPolicies?.[0]).toMatchObject({
+      MaxAttempts: 5,
+      IntervalSeconds: 60,
+    })
+  })
+
+  it("builds a subset of stages without the download", () => {
+    const settings = resolveRunSettings({ spot: { enabled: false } })
+    const definition = integrationsPipelineDefinition(config, settings, [
+      "integration-analysis",
+      "cleanup-broadcast",
+    ])
+    const steps = stepsByName(definition)
+
+    expect(Object.keys(steps)).toEqual([
+      "integration-analysis",
+      "cleanup-broadcast",
+    ])
+    expect(steps["integration-analysis"].DependsOn).toBeUndefined()
+    expect(steps["cleanup-broadcast"].DependsOn).toEqual([
+      "integration-analysis",
+    ])
+  })
+})
@@ -0,0 +1,162 @@
+import {
+  databaseSecretEnvironment,
+  LauncherConfig,
+} from "../shared/launcherConfig"
+import {
+  buildPipelineDefinition,
+  join,
+  param,
+  PipelineDefinition,
+  retryPolicies,
+  RunSettings,
+  scriptTrainingStep,
+  ScriptTrainingStepOptions,
+  stringParameter,
+  TRAINING_IMAGES,
+} from "../shared/pipelineDefinition"
+import { Stage, stageDependencies } from "./stages"
+
+// Environment shared by every step
+const stepEnvironment = () => ({
+  BROADCAST_ID: param("BroadcastId"),
+  CHANNEL: param("StreamChannel"),
+  STREAM_REGION: param("StreamRegion"),
+  AWS_REGION: process.env.AWS_REGION || "ap-southeast-2",
+})
+
+// Pipeline definition for a subset of stages. Everything that varies per
+// broadcast is a parameter, so the definition only changes when the pipeline
+// itself does.
+export function integrationsPipelineDefinition(
+  { bucket, roleArn, databaseSecret }: LauncherConfig,
+  settings: RunSettings,
+  stages: Stage[]
+): PipelineDefinition {
+  const retries = retryPolicies(settings.retry)
+
+  // s3://<bucket>/<prefix>/<broadcastId>/[<channel>/]
+  const outputPath = (prefix: string, perChannel: boolean) =>
+    join(
+      "s3://",
+      param("S3Bucket"),
+      `/${prefix}/`,
+      param("BroadcastId"),
+      "/",
+      ...(perChannel ? [param("Channel"), "/"] : [])
+    )
+
+  // Step for each stage; dependencies are filled in for the selected subset
+  const steps: Record<Stage, ScriptTrainingStepOptions> = {
+    download: {
+      name: "download",
+      image: TRAINING_IMAGES.pytorch20,
+      roleArn,
+      instanceType: param("DownloadInstanceType"),
+      volumeSizeInGB: 100,
+      maxRuntimeInSeconds: 10 * 3600,
+      outputPath: outputPath("pipeline-downloads", false),
+      script: param("DownloadScript"),
+      environment: {
+        ...stepEnvironment(),
+        ...databaseSecretEnvironment(databaseSecret),
+        // Written last, once every file is uploaded
+        DOWNLOAD_COMPLETE_KEY: join(
+          "pipeline-downloads/",
+          param("BroadcastId"),
+          "/_COMPLETE"
+        ),
+      },
+      retryPolicies: retries,
+    },
+    "integration-analysis": {
+      name: "integration-analysis",
+      image: TRAINING_IMAGES.pytorch25,
+      roleArn,
+      instanceType: param("InferenceInstanceType"),
+      volumeSizeInGB: 100,
+      maxRuntimeInSeconds: 30 * 3600,
+      outputPath: outputPath("pipeline-inference", true),
+      script: param("InferenceScript"),
+      environment: {
+        ...stepEnvironment(),
+        ...databaseSecretEnvironment(databaseSecret),
+      },
+      retryPolicies: retries,
+      spot: settings.spot.enabled
+        ? {
+            maxWaitTimeInSeconds: settings.spot.maxWaitTimeInSeconds,
+            checkpointPath: join(
+              "s3://",
+              param("S3Bucket"),
+              "/pipeline-checkpoints/",
+              param("BroadcastId"),
+              "/integration-analysis/"
+            ),
+          }
+        : undefined,
+    },
+    "audio-integration-analysis": {
+      name: "audio-integration-analysis",
+      image: TRAINING_IMAGES.pytorch25,
+      roleArn,
+      instanceType: param("AudioInstanceType"),
+      volumeSizeInGB: 100,
+      maxRuntimeInSeconds: 30 * 3600,
+      outputPath: outputPath("pipeline-audio-analysis", true),
+      script: param("AudioScript"),
+      environment: {
+        ...stepEnvironment(),
+        ...databaseSecretEnvironment(databaseSecret),
+      },
+      retryPolicies: retries,
+    },
+    "cleanup-broadcast": {
+      name: "cleanup-broadcast",
+      image: TRAINING_IMAGES.pytorch20,
+      roleArn,
+      instanceType: param("CleanupInstanceType"),
+      volumeSizeInGB: 30,
+      maxRuntimeInSeconds: 1800,
+      outputPath: outputPath("pipeline-cleanup", false),
+      script: param("CleanupScript"),
+      environment: stepEnvironment(),
+      retryPolicies: retries,
+    },
+  }
+
+  return buildPipelineDefinition(
+    [
+      stringParameter("BroadcastId"),
+      stringParameter("Channel"), // Catalogue code, used in S3 paths
+      stringParameter("StreamChannel"),
+      stringParameter("StreamRegion"),
+      stringParameter("S3Bucket", bucket),
+      stringParameter("DownloadInstanceType", "ml.t3.large"),
+      stringParameter("InferenceInstanceType", "ml.g5.xlarge"),
+      stringParameter("AudioInstanceType", "ml.t3.large"),
+      stringParameter("CleanupInstanceType", "ml.t3.large"),
+      stringParameter(
+        "DownloadScript",
+        `s3://${bucket}/download-script/sourcedir.tar.gz`
+      ),
+      stringParameter(
+        "InferenceScript",
+        `s3://${bucket}/inference-scripts/sourcedir.tar.gz`
+      ),
+      stringParameter(
+        "AudioScript",
+        `s3://${bucket}/audio-integration-analysis-scripts/sourcedir.tar.gz`
+      ),
+      stringParameter(
+        "CleanupScript",
+        `s3://${bucket}/post-inference-script/sourcedir.tar.gz`
+      ),
+    ],
+    stages.map((stage) =>
+      scriptTrainingStep({
+        ...steps[stage],
+        dependsOn: stageDependencies(stage, stages),
+      })
+    )
+  )
+}
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { s3ObjectExists } from "../shared/s3"
+import {
+  downloadCompleteKey,
+  resolveStages,
+  Stage,
+  stageDependencies,
+  STAGES,
+} from "./stages"
+
+vi.mock("../shared/s3", () => ({ s3ObjectExists: vi.fn() }))
+
+describe("stageDependencies", () => {
+  it("follows the full graph when every stage runs", () => {
+    const stages = [...STAGES]
+    expect(
+      Object.fromEntries(
+        stages.map((stage) => [stage, stageDependencies(stage, stages)])
+      )
+    ).toEqual({
+      download: [],
+      "integration-analysis": ["download"],
+      "audio-integration-analysis": ["download"],
+      "cleanup-broadcast": [
+        "integration-analysis",
+        "audio-integration-analysis",
+      ],
+    })
+  })
+
+  it("skips stages that aren't running", () => {
+    const stages: Stage[] = ["integration-analysis", "cleanup-broadcast"]
+    expect(stageDependencies("integration-analysis", stages)).toEqual([])
+    expect(stageDependencies("cleanup-broadcast", stages)).toEqual([
+      "integration-analysis",
+    ])
+  })
+
+  it("waits on a skipped stage's own dependencies", () => {
+    expect(
+      stageDependencies("cleanup-broadcast", ["download", "cleanup-broadcast"])
+    ).toEqual(["download"])
+  })
+})
+
+describe("resolveStages", () => {
+  // Objects in the bucket, by key
+  let objects: Set<string>
+
+  beforeEach(() => {
+    objects = new Set()
+    vi.mocked(s3ObjectExists).mockImplementation(async (_bucket, key) =>
+      objects.has(key)
+    )
+  })
+
+  it("reuses a completed download", async () => {
+    objects.add(downloadCompleteKey("broadcast-1"))
+
+    expect(await resolveStages("bucket", "broadcast-1", {})).toEqual({
+      stages: STAGES.filter((stage) => stage !== "download"),
+      reusedDownload: true,
+      issue: null,
+    })
+  })
+
+  it("downloads again when an earlier download didn't finish", async () => {
+    // Media from a download that failed before writing its marker
+    objects.add("pipeline-downloads/broadcast-1/video.mp4")
+
+    expect(await resolveStages("bucket", "broadcast-1", {})).toEqual({
+      stages: [...STAGES],
+      reusedDownload: false,
+      issue: null,
+    })
+  })
+
+  it("refuses analysis without a completed download", async () => {
+    objects.add("pipeline-downloads/broadcast-1/video.mp4")
+
+    expect(
+      await resolveStages("bucket", "broadcast-1", {
+        stages: ["integration-analysis"],
+      })
+    ).toEqual({
+      issue: {
+        path: "stages",
+        message:
+          "must include download: no completed download for broadcast broadcast-1",
+      },
+    })
+  })
+})
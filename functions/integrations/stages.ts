@@ -0,0 +1,107 @@
+import { s3ObjectExists } from "../shared/s3"
+import { ValidationIssue } from "../shared/validation"
+
+// Pipeline stages in run order. Each is one step of the same name.
+export const STAGES = [
+  "download",
+  "integration-analysis",
+  "audio-integration-analysis",
+  "cleanup-broadcast",
+] as const
+
+export type Stage = (typeof STAGES)[number]
+
+// What each stage waits for when everything runs
+const STAGE_DEPENDENCIES: Record<Stage, Stage[]> = {
+  download: [],
+  "integration-analysis": ["download"],
+  "audio-integration-analysis": ["download"],
+  "cleanup-broadcast": ["integration-analysis", "audio-integration-analysis"],
+}
+
+// Prefix the download step writes a broadcast's media under
+export const downloadPrefix = (broadcastId: string) =>
+  `pipeline-downloads/${broadcastId}/`
+
+// Object the download step writes after all of a broadcast's media, so media
+// left by a download that failed part way isn't reused
+export const downloadCompleteKey = (broadcastId: string) =>
+  `${downloadPrefix(broadcastId)}_COMPLETE`
+
+/**
+ * Steps a stage depends on within a subset of stages. A dependency that isn't
+ * running is replaced by its own dependencies, so e.g. cleanup after only the
+ * download still waits for the download.
+ */
+export function stageDependencies(stage: Stage, selected: Stage[]): Stage[] {
+  const dependencies = new Set<Stage>()
+  const visit = (dependency: Stage) => {
+    if (selected.includes(dependency)) {
+      dependencies.add(dependency)
+    } else {
+      STAGE_DEPENDENCIES[dependency].forEach(visit)
+    }
+  }
+  STAGE_DEPENDENCIES[stage].forEach(visit)
+  return [...dependencies]
+}
+
+interface StageSelection {
+  stages?: string[]
+  forceDownload?: boolean
+}
+
+// Stages to run, or the problem with the selection (reported to the caller
+// as a validation error)
+type StageResolution =
+  | { stages: Stage[]; reusedDownload: boolean; issue: null }
+  | { issue: ValidationIssue }
+
+/**
+ * Resolve the stages a run needs, in run order. When analysis runs, the
+ * download is skipped if an earlier download of the broadcast completed
+ * (unless `forceDownload` is set), and analysis without a download is refused if
+ * there's no media to reuse.
+ */
+export async function resolveStages(
+  bucket: string,
+  broadcastId: string,
+  { stages: requested = [...STAGES], forceDownload = false }: StageSelection
+): Promise<StageResolution> {
+  const unknown = requested.filter((stage) => !STAGES.includes(stage as Stage))
+  if (unknown.length > 0 || requested.length === 0) {
+    return {
+      issue: {
+        path: "stages",
+        message: `must be any of ${STAGES.join(", ")}, got ${unknown.join(", ") || "none"}`,
+      },
+    }
+  }
+
+  const stages = STAGES.filter((stage) => requested.includes(stage))
+  const downloads = stages.includes("download")
+  const needsMedia = stages.some((stage) => stage.endsWith("analysis"))
+  if (!needsMedia || (downloads && forceDownload)) {
+    return { stages, reusedDownload: false, issue: null }
+  }
+
+  // Media from an earlier run's download, once it finished
+  if (!(await s3ObjectExists(bucket, downloadCompleteKey(broadcastId)))) {
+    if (!downloads) {
+      return {
+        issue: {
+          path: "stages",
+          message: `must include download: no completed download for broadcast ${broadcastId}`,
+        },
+      }
+    }
+    return { stages, reusedDownload: false, issue: null }
+  }
+
+  console.log(`♻️  Reusing downloaded media for broadcast ${broadcastId}`)
+  return {
+    stages: stages.filter((stage) => stage !== "download"),
+    reusedDownload: true,
+    issue: null,
+  }
+}
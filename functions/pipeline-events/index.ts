@@ -0,0 +1,403 @@
+import {
+  PrismaClient,
+  Prisma,
+  BroadcastStatus,
+  PipelineRun,
+  PipelineRunStatus,
+  PipelineType,
+} from "@prisma/client"
+import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda"
+import { EventBridgeEvent } from "aws-lambda"
+import { logError } from "../shared/logging"
+import { errorResponse, internalErrorResponse } from "../shared/responses"
+import { mergeStep, stepStates, StepStatusDetail } from "./steps"
+
+// Initialize Prisma client
+const prisma = new PrismaClient()
+
+// Initialize Lambda client outside handler for connection reuse
+const lambdaClient = new LambdaClient({
+  region: process.env.AWS_REGION || "ap-southeast-2",
+})
+
+// Launcher Lambdas, invoked again for the on-demand fallback
+const LAUNCHER_FUNCTION_NAMES: Record<PipelineType, string> = {
+  INTEGRATIONS: process.env.INTEGRATIONS_FUNCTION_NAME || "integrations",
+  BILLBOARDS: process.env.BILLBOARDS_FUNCTION_NAME || "billboards",
+}
+
+// Failure reasons meaning spot capacity wasn't available (after retries)
+const CAPACITY_FAILURE_PATTERN = /capacity|spot/i
+
+const EXECUTION_STATUS_CHANGE =
+  "SageMaker Model Building Pipeline Execution Status Change"
+const STEP_STATUS_CHANGE =
+  "SageMaker Model Building Pipeline Execution Step Status Change"
+
+interface ExecutionStatusDetail {
+  pipelineArn: string
+  pipelineExecutionArn: string
+  pipelineExecutionDisplayName?: string
+  currentPipelineExecutionStatus: string // Executing | Stopping | Stopped | Failed | Succeeded
+  previousPipelineExecutionStatus?: string
+  executionStartTime?: string
+  executionEndTime?: string
+}
+
+type PipelineEvent =
+  | EventBridgeEvent<typeof EXECUTION_STATUS_CHANGE, ExecutionStatusDetail>
+  | EventBridgeEvent<typeof STEP_STATUS_CHANGE, StepStatusDetail>
+
+const EXECUTION_FAILED = "Pipeline execution failed"
+
+// Add a step's failure to a run's failure reason
+function appendFailure(current: string | null, failure: string): string {
+  if (!current || current === EXECUTION_FAILED) return failure
+  if (current.includes(failure)) return current
+  return `${current}; ${failure}`
+}
+
+// Broadcast statuses in the order a run moves through them
+const STATUS_ORDER: BroadcastStatus[] = [
+  BroadcastStatus.PENDING,
+  BroadcastStatus.DOWNLOADING_VIDEO,
+  BroadcastStatus.AWAITING_ANALYSIS,
+  BroadcastStatus.ANALYSING,
+  BroadcastStatus.ANALYSIS_COMPLETED,
+]
+
+const RUN_STATUSES: Record<string, PipelineRunStatus> = {
+  Executing: PipelineRunStatus.EXECUTING,
+  Stopping: PipelineRunStatus.STOPPING,
+  Stopped: PipelineRunStatus.STOPPED,
+  Failed: PipelineRunStatus.FAILED,
+  Succeeded: PipelineRunStatus.SUCCEEDED,
+}
+
+const TERMINAL_RUN_STATUSES: PipelineRunStatus[] = [
+  PipelineRunStatus.STOPPED,
+  PipelineRunStatus.FAILED,
+  PipelineRunStatus.SUCCEEDED,
+]
+
+// Statuses a broadcast can move to the target from. Events can arrive out of
+// order, so statuses only move forward; a failed broadcast can be picked up
+// again by a newer run.
+function statusesBefore(target: BroadcastStatus): BroadcastStatus[] {
+  if (target === BroadcastStatus.ANALYSIS_FAILED) {
+    return STATUS_ORDER.slice(0, -1)
+  }
+  return [
+    ...STATUS_ORDER.slice(0, STATUS_ORDER.indexOf(target)),
+    BroadcastStatus.ANALYSIS_FAILED,
+  ]
+}
+
+// Runs started later for the same broadcast (or day, channel and region) own
+// the broadcast statuses; events from superseded runs only update the run
+async function isLatestRun(run: PipelineRun): Promise<boolean> {
+  const latest = await prisma.pipelineRun.findFirst({
+    where:
+      run.type === PipelineType.INTEGRATIONS
+        ? { type: run.type, broadcastId: run.broadcastId }
+        : {
+            type: run.type,
+            dayId: run.dayId,
+            channel: run.channel,
+            region: run.region,
+          },
+    orderBy: { startedAt: "desc" },
+  })
+  return latest?.id === run.id
+}
+
+// Move the broadcasts a run covers to a new status
+async function advanceBroadcasts(
+  run: PipelineRun,
+  target: BroadcastStatus
+): Promise<void> {
+  if (!(await isLatestRun(run))) {
+    console.log(`⏭️  Run ${run.id} has been superseded - statuses unchanged`)
+    return
+  }
+
+  const from = statusesBefore(target)
+  const result =
+    run.type === PipelineType.INTEGRATIONS
+      ? await prisma.broadcast.updateMany({
+          where: { id: run.broadcastId!, integrationStatus: { in: from } },
+          data: { integrationStatus: target },
+        })
+      : await prisma.broadcast.updateMany({
+          where: {
+            dayId: run.dayId!,
+            channel: run.channel,
+            region: run.region,
+            billboardStatus: { in: from },
+          },
+          data: { billboardStatus: target },
+        })
+
+  console.log(
+    `📊 ${run.type} status → ${target} for ${result.count} broadcast(s)`
+  )
+}
+
+// Broadcast status implied by a step changing status
+function statusForStep(
+  stepName: string,
+  stepStatus: string
+): BroadcastStatus | null {
+  // Cleanup runs after analysis and doesn't change what the broadcast is doing
+  if (stepName.startsWith("cleanup")) return null
+
+  if (stepName.startsWith("download")) {
+    if (stepStatus === "Starting" || stepStatus === "Executing") {
+      return BroadcastStatus.DOWNLOADING_VIDEO
+    }
+    if (stepStatus === "Succeeded") return BroadcastStatus.AWAITING_ANALYSIS
+    return null
+  }
+
+  if (stepStatus === "Starting" || stepStatus === "Executing") {
+    return BroadcastStatus.ANALYSING
+  }
+  return null
+}
+
+// Lock a run for the rest of the transaction and read it again, so events
+// for the same run update it one at a time from its latest state
+async function lockRun(
+  tx: Prisma.TransactionClient,
+  runId: string
+): Promise<PipelineRun> {
+  await tx.$queryRaw`SELECT id FROM pipeline_runs WHERE id = ${runId} FOR UPDATE`
+  return tx.pipelineRun.findUniqueOrThrow({ where: { id: runId } })
+}
+
+async function handleStepStatusChange(
+  run: PipelineRun,
+  detail: StepStatusDetail
+): Promise<void> {
+  console.log(
+    `🔧 Step ${detail.stepName}: ${detail.previousStepStatus ?? "-"} → ${
+      detail.currentStepStatus
+    }`
+  )
+  if (detail.failureReason) {
+    console.error(`❌ Step ${detail.stepName} failed: ${detail.failureReason}`)
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const current = await lockRun(tx, run.id)
+    const steps = mergeStep(stepStates(current.steps), detail)
+    if (!steps) return null
+
+    // A step failure reported after the execution failed still reaches the run
+    const lateFailureReason =
+      detail.failureReason && current.status === PipelineRunStatus.FAILED
+        ? appendFailure(
+            current.failureReason,
+            `${detail.stepName}: ${detail.failureReason}`
+          )
+        : null
+
+    const updated = await tx.pipelineRun.update({
+      where: { id: run.id },
+      data: {
+        steps,
+        ...(lateFailureReason && { failureReason: lateFailureReason }),
+      },
+    })
+    return { updated, lateFailureReason }
+  })
+
+  if (!result) {
+    console.log(
+      `⏭️  Step ${detail.stepName} has moved past ${detail.currentStepStatus} - event ignored`
+    )
+    return
+  }
+  const { updated, lateFailureReason } = result
+
+  // Events aren't delivered in order, so the execution may have failed
+  // before the capacity failure that explains it arrived
+  if (lateFailureReason) {
+    await fallBackToOnDemand(updated, lateFailureReason)
+    return
+  }
+
+  // The execution event decides the final status once the run has ended
+  if (TERMINAL_RUN_STATUSES.includes(updated.status)) return
+
+  const target = statusForStep(detail.stepName, detail.currentStepStatus)
+  if (target) {
+    await advanceBroadcasts(run, target)
+  }
+}
+
+interface LaunchRequest {
+  spot?: { enabled?: boolean; fallbackToOnDemand?: boolean }
+}
+
+// Spot runs that failed for lack of capacity are relaunched on-demand unless
+// the request opted out
+function needsOnDemandFallback(
+  run: PipelineRun,
+  failureReason: string
+): boolean {
+  const request = run.request as LaunchRequest | null
+  return (
+    run.spotTraining &&
+    !!request &&
+    request.spot?.fallbackToOnDemand !== false &&
+    CAPACITY_FAILURE_PATTERN.test(failureReason)
+  )
+}
+
+// Replay the launcher request with spot training turned off. The launcher
+// records the new run, which then owns the broadcast statuses.
+async function relaunchOnDemand(run: PipelineRun): Promise<void> {
+  const request = run.request as LaunchRequest
+  await lambdaClient.send(
+    new InvokeCommand({
+      FunctionName: LAUNCHER_FUNCTION_NAMES[run.type],
+      InvocationType: "Event",
+      Payload: Buffer.from(
+        JSON.stringify({
+          ...request,
+          spot: { ...request.spot, enabled: false },
+          overrideBudget: true, // Replaces a run that was already within budget
+        })
+      ),
+    })
+  )
+  console.log(`🔁 Relaunched ${run.type} run ${run.id} on on-demand instances`)
+}
+
+/**
+ * Relaunch a failed run on-demand if it needs the fallback. Returns whether
+ * the run was (or had already been) relaunched, in which case its broadcasts
+ * are left for the new run. Failure events can repeat and arrive in any
+ * order, so the relaunch is claimed on the run and happens once.
+ */
+async function fallBackToOnDemand(
+  run: PipelineRun,
+  failureReason: string
+): Promise<boolean> {
+  if (!needsOnDemandFallback(run, failureReason)) return false
+  if (run.relaunchedAt) return true
+  if (!(await isLatestRun(run))) return false
+
+  const claimed = await prisma.pipelineRun.updateMany({
+    where: { id: run.id, relaunchedAt: null },
+    data: { relaunchedAt: new Date() },
+  })
+  if (claimed.count > 0) {
+    await relaunchOnDemand(run)
+  }
+  return true
+}
+
+async function handleExecutionStatusChange(
+  run: PipelineRun,
+  detail: ExecutionStatusDetail
+): Promise<void> {
+  const status = RUN_STATUSES[detail.currentPipelineExecutionStatus]
+  if (!status) {
+    console.warn(
+      `⚠️  Unknown pipeline status: ${detail.currentPipelineExecutionStatus}`
+    )
+    return
+  }
+
+  console.log(
+    `🚦 Pipeline ${run.pipelineName}: ${
+      detail.previousPipelineExecutionStatus ?? "-"
+    } → ${detail.currentPipelineExecutionStatus}`
+  )
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const current = await lockRun(tx, run.id)
+
+    // Summarise the failed steps so the run shows why it failed
+    let failureReason: string | null = null
+    if (status === PipelineRunStatus.FAILED) {
+      failureReason =
+        Object.entries(stepStates(current.steps))
+          .filter(([, step]) => step.failureReason)
+          .map(([name, step]) => `${name}: ${step.failureReason}`)
+          .join("; ") || EXECUTION_FAILED
+    } else if (status === PipelineRunStatus.STOPPED) {
+      failureReason = "Pipeline execution stopped"
+    }
+
+    return tx.pipelineRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        failureReason,
+        endedAt: TERMINAL_RUN_STATUSES.includes(status)
+          ? new Date(detail.executionEndTime || Date.now())
+          : null,
+      },
+    })
+  })
+
+  if (status === PipelineRunStatus.SUCCEEDED) {
+    await advanceBroadcasts(run, BroadcastStatus.ANALYSIS_COMPLETED)
+  } else if (
+    status === PipelineRunStatus.FAILED ||
+    status === PipelineRunStatus.STOPPED
+  ) {
+    // A relaunched run leaves its broadcasts to the new run
+    const relaunched =
+      status === PipelineRunStatus.FAILED &&
+      (await fallBackToOnDemand(updated, updated.failureReason!))
+    if (!relaunched) {
+      await advanceBroadcasts(run, BroadcastStatus.ANALYSIS_FAILED)
+    }
+  }
+}
+
+/**
+ * EventBridge handler for SageMaker pipeline execution and step status
+ * changes. Updates the matching PipelineRun and moves the broadcast statuses
+ * it covers through ANALYSING to ANALYSIS_COMPLETED or ANALYSIS_FAILED.
+ */
+export const handler = async (event: PipelineEvent) => {
+  try {
+    const executionArn = event.detail.pipelineExecutionArn
+    console.log(`📨 ${event["detail-type"]} for ${executionArn}`)
+
+    const run = await prisma.pipelineRun.findUnique({
+      where: { executionArn },
+    })
+
+    if (!run) {
+      // Pipelines started outside the launchers have no run to update
+      console.log(`⏭️  No pipeline run recorded for ${executionArn}`)
+      return errorResponse("NOT_FOUND", "Pipeline run not found")
+    }
+
+    if (event["detail-type"] === STEP_STATUS_CHANGE) {
+      await handleStepStatusChange(run, event.detail)
+    } else if (event["detail-type"] === EXECUTION_STATUS_CHANGE) {
+      await handleExecutionStatusChange(run, event.detail)
+    } else {
+      console.warn(
+        `⚠️  Unsupported event type: ${(event as PipelineEvent)["detail-type"]}`
+      )
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, pipelineRunId: run.id }),
+    }
+  } catch (error) {
+    logError("Error handling pipeline event", error)
+    return internalErrorResponse(error)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
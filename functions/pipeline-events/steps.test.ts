@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest"
+import { mergeStep, StepStates, StepStatusDetail } from "./steps"
+
+const event = (
+  stepName: string,
+  currentStepStatus: string,
+  fields: Partial<StepStatusDetail> = {}
+): StepStatusDetail => ({
+  pipelineArn: "arn:aws:sagemaker:ap-southeast-2:123456789012:pipeline/p",
+  pipelineExecutionArn:
+    "arn:aws:sagemaker:ap-southeast-2:123456789012:pipeline/p/execution/e",
+  stepName,
+  currentStepStatus,
+  ...fields,
+})
+
+describe("mergeStep", () => {
+  it("adds a step and keeps the others", () => {
+    const steps: StepStates = { download: { status: "Succeeded" } }
+
+    expect(
+      mergeStep(
+        steps,
+        event("integration-analysis", "Executing", {
+          stepStartTime: "2026-01-04T07:00:00Z",
+        })
+      )
+    ).toEqual({
+      download: { status: "Succeeded" },
+      "integration-analysis": {
+        status: "Executing",
+        startedAt: "2026-01-04T07:00:00Z",
+        executed: true,
+      },
+    })
+  })
+
+  it("keeps what earlier events recorded", () => {
+    const steps: StepStates = {
+      download: { status: "Executing", startedAt: "2026-01-04T07:00:00Z" },
+    }
+
+    expect(
+      mergeStep(
+        steps,
+        event("download", "Failed", {
+          stepEndTime: "2026-01-04T07:05:00Z",
+          failureReason: "Insufficient capacity",
+        })
+      )
+    ).toEqual({
+      download: {
+        status: "Failed",
+        startedAt: "2026-01-04T07:00:00Z",
+        endedAt: "2026-01-04T07:05:00Z",
+        failureReason: "Insufficient capacity",
+      },
+    })
+  })
+
+  it("marks a step that failed while running as executed", () => {
+    const steps: StepStates = { download: { status: "Starting" } }
+
+    expect(
+      mergeStep(
+        steps,
+        event("download", "Failed", { previousStepStatus: "Executing" })
+      )
+    ).toEqual({ download: { status: "Failed", executed: true } })
+  })
+
+  it("ignores an event that arrives after a later one", () => {
+    const steps: StepStates = { download: { status: "Succeeded" } }
+
+    expect(mergeStep(steps, event("download", "Executing"))).toBeNull()
+    expect(mergeStep(steps, event("download", "Starting"))).toBeNull()
+  })
+
+  it("doesn't replace one end state with another", () => {
+    const steps: StepStates = { download: { status: "Succeeded" } }
+
+    expect(mergeStep(steps, event("download", "Failed"))).toBeNull()
+  })
+
+  it("applies a repeated event", () => {
+    const steps: StepStates = {
+      download: { status: "Succeeded", executed: true },
+    }
+
+    expect(
+      mergeStep(
+        steps,
+        event("download", "Succeeded", { stepEndTime: "2026-01-04T07:05:00Z" })
+      )
+    ).toEqual({
+      download: {
+        status: "Succeeded",
+        endedAt: "2026-01-04T07:05:00Z",
+        executed: true,
+      },
+    })
+  })
+})
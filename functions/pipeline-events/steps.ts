@@ -0,0 +1,79 @@
+// Recorded state of one pipeline step. A type rather than an interface so
+// the steps map is assignable to Prisma's JSON input as it is.
+export type StepState = {
+  status: string
+  startedAt?: string
+  endedAt?: string
+  failureReason?: string
+  executed?: boolean // Got past Starting, so its instances were billed
+}
+
+export type StepStates = Record<string, StepState>
+
+export interface StepStatusDetail {
+  pipelineArn: string
+  pipelineExecutionArn: string
+  stepName: string
+  currentStepStatus: string // Starting | Executing | Stopping | Stopped | Failed | Succeeded
+  previousStepStatus?: string
+  stepStartTime?: string
+  stepEndTime?: string
+  failureReason?: string
+}
+
+// How far along each step status is. Stopped, Failed and Succeeded all end
+// the step, so none of them replaces another.
+const STEP_STATUS_ORDER: Record<string, number> = {
+  Starting: 0,
+  Executing: 1,
+  Stopping: 2,
+  Stopped: 3,
+  Failed: 3,
+  Succeeded: 3,
+}
+
+const TERMINAL_STEP_RANK = 3
+
+// Statuses a step only reaches once it is running
+const EXECUTED_STATUSES = ["Executing", "Stopping", "Succeeded"]
+
+// Read a run's steps column, which is null until the first step event
+export const stepStates = (steps: unknown): StepStates =>
+  (steps as StepStates | null) || {}
+
+/**
+ * Merge a step status event into a run's steps. Events arrive out of order,
+ * so one that would move the step backwards (or from one end state to
+ * another) returns null and leaves the steps as they are.
+ */
+export function mergeStep(
+  steps: StepStates,
+  detail: StepStatusDetail
+): StepStates | null {
+  const current = steps[detail.stepName]
+  if (current) {
+    const currentRank = STEP_STATUS_ORDER[current.status] ?? -1
+    const nextRank = STEP_STATUS_ORDER[detail.currentStepStatus] ?? -1
+    if (
+      nextRank < currentRank ||
+      (currentRank === TERMINAL_STEP_RANK &&
+        detail.currentStepStatus !== current.status)
+    ) {
+      return null
+    }
+  }
+
+  const step: StepState = { ...current, status: detail.currentStepStatus }
+  if (detail.stepStartTime) step.startedAt = detail.stepStartTime
+  if (detail.stepEndTime) step.endedAt = detail.stepEndTime
+  if (detail.failureReason) step.failureReason = detail.failureReason
+  // A step that failed while running says so in its previous status
+  if (
+    EXECUTED_STATUSES.includes(detail.currentStepStatus) ||
+    EXECUTED_STATUSES.includes(detail.previousStepStatus ?? "")
+  ) {
+    step.executed = true
+  }
+
+  return { ...steps, [detail.stepName]: step }
+}
@@ -0,0 +1,607 @@
+import { PrismaClient, BroadcastStatus, Broadcast } from "@prisma/client"
+import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda"
+import { dayDateFor } from "../shared/broadcastDay"
+import { logError, logEvent } from "../shared/logging"
+import { getChannel, getRegion } from "../shared/markets"
+import { errorResponse, internalErrorResponse } from "../shared/responses"
+import {
+  array,
+  calendarDate,
+  channelCode,
+  number,
+  object,
+  optional,
+  refine,
+  regionCode,
+  Schema,
+  string,
+  validate,
+  validationErrorResponse,
+} from "../shared/validation"
+
+// Initialize Prisma client
+const prisma = new PrismaClient()
+
+// Initialize Lambda client outside handler for connection reuse
+const lambdaClient = new LambdaClient({
+  region: process.env.AWS_REGION || "ap-southeast-2",
+})
+
+// Launcher Lambdas for the SageMaker pipelines
+const INTEGRATIONS_FUNCTION_NAME =
+  process.env.INTEGRATIONS_FUNCTION_NAME || "integrations"
+const BILLBOARDS_FUNCTION_NAME =
+  process.env.BILLBOARDS_FUNCTION_NAME || "billboards"
+
+// Wait after a broadcast ends so the stream archive is complete
+const ANALYSIS_GRACE_MINUTES = parseInt(
+  process.env.ANALYSIS_GRACE_MINUTES || "30"
+)
+
+// Cap on broadcasts picked up per run, so one run can't flood SageMaker
+const MAX_BROADCASTS_PER_RUN = parseInt(
+  process.env.MAX_BROADCASTS_PER_RUN || "20"
+)
+
+// Broadcasts the scheduled run couldn't launch (no LOG file yet, the rest of
+// the day still airing, a failed or over-budget launch) wait this long before
+// it tries them again, so they don't hold up newer broadcasts
+const SCHEDULE_RETRY_MINUTES = parseInt(
+  process.env.SCHEDULE_RETRY_MINUTES || "15"
+)
+
+// Launcher invocations in flight at once during a batch launch
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || "5")
+
+// Statuses a batch launch (re)starts analysis from; the scheduled run only
+// picks up PENDING broadcasts
+const BATCH_LAUNCHABLE_STATUSES: BroadcastStatus[] = [
+  BroadcastStatus.PENDING,
+  BroadcastStatus.ANALYSIS_FAILED,
+]
+
+type BroadcastWithDay = Broadcast & {
+  day: { id: string; date: Date; program: { name: string } }
+}
+
+interface LaunchResult {
+  broadcastId: string
+  pipeline: "integrations" | "billboards"
+  status: "launched" | "failed" | "skipped"
+  reason?: string // Why a launch was skipped
+  error?: string
+}
+
+interface BatchLaunchEvent {
+  programSlug: string
+  dayId?: string
+  from?: string // YYYY-MM-DD, inclusive; used when no dayId is given
+  to?: string // YYYY-MM-DD, inclusive; defaults to from
+  channels?: string[]
+  regions?: string[]
+  concurrency?: number
+}
+
+const batchLaunchEventSchema: Schema<BatchLaunchEvent> = refine(
+  object({
+    programSlug: string(),
+    dayId: optional(string()),
+    from: optional(calendarDate()),
+    to: optional(calendarDate()),
+    channels: optional(array(channelCode())),
+    regions: optional(array(regionCode())),
+    concurrency: optional(number({ min: 1, integer: true })),
+  }),
+  ({ dayId, from, to }) => {
+    if (!dayId && !from) {
+      return "Provide a dayId or a from/to date range (YYYY-MM-DD)"
+    }
+    return from && to && to < from ? "to must not be before from" : null
+  }
+)
+
+// Invoke a launcher Lambda and wait for it to report whether the pipeline started
+async function invokeLauncher(
+  functionName: string,
+  payload: object
+): Promise<void> {
+  const response = await lambdaClient.send(
+    new InvokeCommand({
+      FunctionName: functionName,
+      InvocationType: "RequestResponse",
+      Payload: Buffer.from(JSON.stringify(payload)),
+    })
+  )
+
+  const result = response.Payload
+    ? JSON.parse(Buffer.from(response.Payload).toString("utf-8"))
+    : null
+
+  if (response.FunctionError || !result || result.statusCode !== 200) {
+    const body = result?.body ? JSON.parse(result.body) : result
+    throw new Error(
+      body?.error?.message ||
+        body?.errorMessage ||
+        `${functionName} failed to launch`
+    )
+  }
+}
+
+// Claim a broadcast's integration analysis and start its pipeline. The claim is
+// a conditional update, so a broadcast another run already claimed is skipped.
+async function launchIntegrations(
+  broadcast: BroadcastWithDay,
+  claimable: BroadcastStatus[] = [BroadcastStatus.PENDING]
+): Promise<LaunchResult> {
+  const claimed = await prisma.broadcast.updateMany({
+    where: { id: broadcast.id, integrationStatus: { in: claimable } },
+    data: { integrationStatus: BroadcastStatus.DOWNLOADING_VIDEO },
+  })
+
+  if (claimed.count === 0) {
+    return {
+      broadcastId: broadcast.id,
+      pipeline: "integrations",
+      status: "skipped",
+      reason: "Already claimed",
+    }
+  }
+
+  try {
+    await invokeLauncher(INTEGRATIONS_FUNCTION_NAME, {
+      broadcastId: broadcast.id,
+      channel: broadcast.channel,
+      region: broadcast.region,
+    })
+    console.log(`  🚀 Integrations pipeline started for ${broadcast.name}`)
+    return {
+      broadcastId: broadcast.id,
+      pipeline: "integrations",
+      status: "launched",
+    }
+  } catch (error) {
+    // Release the claim so the next run retries
+    await prisma.broadcast.update({
+      where: { id: broadcast.id },
+      data: { integrationStatus: broadcast.integrationStatus },
+    })
+    console.error(
+      `  ❌ Integrations pipeline failed to start for ${broadcast.name}:`,
+      error
+    )
+    return {
+      broadcastId: broadcast.id,
+      pipeline: "integrations",
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+    }
+  }
+}
+
+// Find the LOG file the billboard pipeline reads for a broadcast
+async function findLogFileKey(
+  broadcast: BroadcastWithDay
+): Promise<string | null> {
+  const logFile = await prisma.logFile.findFirst({
+    where: {
+      dayId: broadcast.dayId,
+      channel: broadcast.channel,
+      region: broadcast.region,
+    },
+    orderBy: { createdAt: "desc" },
+  })
+  if (logFile) return logFile.s3_key
+
+  // Regional LOG files aren't linked to Days; use the file that created the broadcast
+  const audit = await prisma.broadcastAudit.findFirst({
+    where: { broadcastId: broadcast.id, logFileKey: { not: null } },
+    orderBy: { createdAt: "desc" },
+  })
+  return audit?.logFileKey ?? null
+}
+
+// The billboard pipeline analyses a whole day for a channel and region, so it
+// is claimed for every pending broadcast in that group at once
+async function launchBillboards(
+  broadcast: BroadcastWithDay,
+  claimable: BroadcastStatus[] = [BroadcastStatus.PENDING]
+): Promise<LaunchResult[]> {
+  const group = {
+    dayId: broadcast.dayId,
+    channel: broadcast.channel,
+    region: broadcast.region,
+  }
+
+  const s3Key = await findLogFileKey(broadcast)
+  if (!s3Key) {
+    console.log(`  ⏭️  No LOG file found for billboards: ${broadcast.name}`)
+    return [
+      {
+        broadcastId: broadcast.id,
+        pipeline: "billboards",
+        status: "skipped",
+        reason: "No LOG file found",
+      },
+    ]
+  }
+
+  const pending = await prisma.broadcast.findMany({
+    where: { ...group, billboardStatus: { in: claimable } },
+    select: { id: true, billboardStatus: true },
+  })
+  const claimed = await prisma.broadcast.updateMany({
+    where: {
+      id: { in: pending.map((pendingBroadcast) => pendingBroadcast.id) },
+      billboardStatus: { in: claimable },
+    },
+    data: { billboardStatus: BroadcastStatus.DOWNLOADING_VIDEO },
+  })
+
+  if (claimed.count === 0) {
+    return [
+      {
+        broadcastId: broadcast.id,
+        pipeline: "billboards",
+        status: "skipped",
+        reason: "Already claimed",
+      },
+    ]
+  }
+
+  const results = (status: LaunchResult["status"], error?: string) =>
+    pending.map(({ id }): LaunchResult => ({
+      broadcastId: id,
+      pipeline: "billboards",
+      status,
+      error,
+    }))
+
+  try {
+    await invokeLauncher(BILLBOARDS_FUNCTION_NAME, {
+      channel: broadcast.channel,
+      region: broadcast.region,
+      programName: broadcast.day.program.name,
+      dayId: broadcast.dayId,
+      s3Key,
+      broadcast_date: broadcast.day.date.toISOString().slice(0, 10),
+    })
+    console.log(
+      `  🚀 Billboards pipeline started for ${broadcast.day.program.name} (${broadcast.channel}-${broadcast.region})`
+    )
+    return results("launched")
+  } catch (error) {
+    // Release the claim, restoring each broadcast's previous status
+    const claimedStatuses = new Set(
+      pending.map(({ billboardStatus }) => billboardStatus)
+    )
+    for (const status of claimedStatuses) {
+      const ids = pending
+        .filter(({ billboardStatus }) => billboardStatus === status)
+        .map(({ id }) => id)
+      await prisma.broadcast.updateMany({
+        where: {
+          id: { in: ids },
+          billboardStatus: BroadcastStatus.DOWNLOADING_VIDEO,
+        },
+        data: { billboardStatus: status },
+      })
+    }
+    console.error(
+      `  ❌ Billboards pipeline failed to start for ${broadcast.name}:`,
+      error
+    )
+    return results(
+      "failed",
+      error instanceof Error ? error.message : "Unknown error"
+    )
+  }
+}
+
+// Whether every broadcast sharing this broadcast's billboard pipeline has ended
+async function billboardGroupEnded(
+  broadcast: BroadcastWithDay,
+  cutoff: Date
+): Promise<boolean> {
+  const stillAiring = await prisma.broadcast.count({
+    where: {
+      dayId: broadcast.dayId,
+      channel: broadcast.channel,
+      region: broadcast.region,
+      endTime: { gt: cutoff },
+    },
+  })
+  return stillAiring === 0
+}
+
+// Start pipelines for broadcasts that ended more than ANALYSIS_GRACE_MINUTES ago
+async function scheduleEndedBroadcasts() {
+  const now = new Date()
+  const cutoff = new Date(now.getTime() - ANALYSIS_GRACE_MINUTES * 60 * 1000)
+  const retryCutoff = new Date(
+    now.getTime() - SCHEDULE_RETRY_MINUTES * 60 * 1000
+  )
+  console.log(
+    `⏰ Looking for broadcasts that ended before ${cutoff.toISOString()}`
+  )
+
+  const broadcasts: BroadcastWithDay[] = await prisma.broadcast.findMany({
+    where: {
+      endTime: { lte: cutoff },
+      AND: [
+        {
+          OR: [
+            { integrationStatus: BroadcastStatus.PENDING },
+            { billboardStatus: BroadcastStatus.PENDING },
+          ],
+        },
+        {
+          OR: [
+            { lastScheduledAt: null },
+            { lastScheduledAt: { lte: retryCutoff } },
+          ],
+        },
+      ],
+    },
+    include: {
+      day: {
+        select: { id: true, date: true, program: { select: { name: true } } },
+      },
+    },
+    // Broadcasts not tried yet first, then those tried longest ago
+    orderBy: [
+      { lastScheduledAt: { sort: "asc", nulls: "first" } },
+      { endTime: "asc" },
+    ],
+    take: MAX_BROADCASTS_PER_RUN,
+  })
+
+  console.log(`📺 Found ${broadcasts.length} broadcast(s) ready for analysis`)
+
+  // Whatever happens below, these go to the back of the queue. Any still
+  // PENDING afterwards are retried after SCHEDULE_RETRY_MINUTES.
+  await prisma.broadcast.updateMany({
+    where: { id: { in: broadcasts.map(({ id }) => id) } },
+    data: { lastScheduledAt: now },
+  })
+
+  const results: LaunchResult[] = []
+  const billboardGroups = new Set<string>()
+
+  for (const broadcast of broadcasts) {
+    console.log(`\n🎬 ${broadcast.name} (${broadcast.id})`)
+
+    if (broadcast.integrationStatus === BroadcastStatus.PENDING) {
+      results.push(await launchIntegrations(broadcast))
+    }
+
+    const groupKey = `${broadcast.dayId}:${broadcast.channel}:${broadcast.region}`
+    if (
+      broadcast.billboardStatus === BroadcastStatus.PENDING &&
+      !billboardGroups.has(groupKey)
+    ) {
+      billboardGroups.add(groupKey)
+      if (await billboardGroupEnded(broadcast, cutoff)) {
+        results.push(...(await launchBillboards(broadcast)))
+      } else {
+        console.log(
+          `  ⏳ Waiting for the rest of the day to air before billboards`
+        )
+      }
+    }
+  }
+
+  const launched = results.filter((result) => result.status === "launched")
+  const failed = results.filter((result) => result.status === "failed")
+  console.log(
+    `\n✅ Launched ${launched.length}, failed ${failed.length}, skipped ${
+      results.length - launched.length - failed.length
+    }`
+  )
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      success: failed.length === 0,
+      results,
+    }),
+  }
+}
+
+// Why a broadcast's analysis can't be launched by a batch, or null if it can
+function batchSkipReason(status: BroadcastStatus): string | null {
+  if (BATCH_LAUNCHABLE_STATUSES.includes(status)) return null
+  return status === BroadcastStatus.ANALYSIS_COMPLETED
+    ? "Already analysed"
+    : "In progress"
+}
+
+// Run tasks with at most `limit` in flight, keeping results in task order
+async function runWithConcurrency<T>(
+  tasks: (() => Promise<T>)[],
+  limit: number
+): Promise<T[]> {
+  const results: T[] = new Array(tasks.length)
+  let next = 0
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++
+      results[index] = await tasks[index]()
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker)
+  )
+  return results
+}
+
+// YYYY-MM-DD to the Day.date it identifies
+function parseDayDate(value: string): Date {
+  const [year, month, day] = value.split("-").map((part) => parseInt(part))
+  return dayDateFor(year, month, day)
+}
+
+// Launch analysis for every matching broadcast of a program's Day or date
+// range, e.g. after a tournament day. Broadcasts already analysed or in
+// progress are reported as skipped.
+async function batchLaunch(input: BatchLaunchEvent) {
+  const { value: event, issues } = validate(batchLaunchEventSchema, input)
+  if (issues) {
+    return validationErrorResponse(issues)
+  }
+
+  const {
+    programSlug,
+    dayId,
+    from,
+    to = from,
+    channels = [],
+    regions = [],
+    concurrency = BATCH_CONCURRENCY,
+  } = event
+
+  // Filters were validated against the catalogue above
+  const channelCodes = channels.map((channel) => getChannel(channel)!.code)
+  const regionCodes = regions.map((region) => getRegion(region)!.code)
+
+  const days = await prisma.day.findMany({
+    where: {
+      program: { slug: programSlug },
+      ...(dayId
+        ? { id: dayId }
+        : { date: { gte: parseDayDate(from!), lte: parseDayDate(to!) } }),
+    },
+    select: { id: true },
+  })
+  if (days.length === 0) {
+    return errorResponse(
+      "NOT_FOUND",
+      `No days found for program ${programSlug}`
+    )
+  }
+
+  const broadcasts: BroadcastWithDay[] = await prisma.broadcast.findMany({
+    where: {
+      dayId: { in: days.map((day) => day.id) },
+      ...(channelCodes.length > 0 && {
+        channel: { in: channelCodes },
+      }),
+      ...(regionCodes.length > 0 && {
+        region: { in: regionCodes },
+      }),
+    },
+    include: {
+      day: {
+        select: { id: true, date: true, program: { select: { name: true } } },
+      },
+    },
+    orderBy: { startTime: "asc" },
+  })
+
+  console.log(
+    `📦 Batch launch for ${programSlug}: ${broadcasts.length} broadcast(s) across ${days.length} day(s)`
+  )
+
+  const cutoff = new Date(Date.now() - ANALYSIS_GRACE_MINUTES * 60 * 1000)
+  const results: LaunchResult[] = []
+  const launches: (() => Promise<LaunchResult[]>)[] = []
+  const billboardGroups = new Map<string, BroadcastWithDay[]>()
+  const skip = (
+    broadcast: BroadcastWithDay,
+    pipeline: LaunchResult["pipeline"],
+    reason: string
+  ) =>
+    results.push({
+      broadcastId: broadcast.id,
+      pipeline,
+      status: "skipped",
+      reason,
+    })
+
+  for (const broadcast of broadcasts) {
+    const reason =
+      broadcast.endTime > cutoff
+        ? "Still airing"
+        : batchSkipReason(broadcast.integrationStatus)
+    if (reason) {
+      skip(broadcast, "integrations", reason)
+    } else {
+      launches.push(async () => [
+        await launchIntegrations(broadcast, BATCH_LAUNCHABLE_STATUSES),
+      ])
+    }
+
+    const groupKey = `${broadcast.dayId}:${broadcast.channel}:${broadcast.region}`
+    billboardGroups.set(groupKey, [
+      ...(billboardGroups.get(groupKey) || []),
+      broadcast,
+    ])
+  }
+
+  // One billboard pipeline per day, channel and region, once it has all aired
+  for (const group of billboardGroups.values()) {
+    const launchable = group.filter(
+      (broadcast) => !batchSkipReason(broadcast.billboardStatus)
+    )
+    for (const broadcast of group) {
+      const reason = batchSkipReason(broadcast.billboardStatus)
+      if (reason) skip(broadcast, "billboards", reason)
+    }
+    if (launchable.length === 0) continue
+
+    if (group.some((broadcast) => broadcast.endTime > cutoff)) {
+      launchable.forEach((broadcast) =>
+        skip(broadcast, "billboards", "Still airing")
+      )
+    } else {
+      launches.push(() =>
+        launchBillboards(launchable[0], BATCH_LAUNCHABLE_STATUSES)
+      )
+    }
+  }
+
+  results.push(...(await runWithConcurrency(launches, concurrency)).flat())
+
+  const byStatus = (status: LaunchResult["status"]) =>
+    results.filter((result) => result.status === status)
+  const launched = byStatus("launched")
+  const skipped = byStatus("skipped")
+  const failed = byStatus("failed")
+  console.log(
+    `\n✅ Launched ${launched.length}, failed ${failed.length}, skipped ${skipped.length}`
+  )
+
+  return {
+    statusCode: 200,
+    body: JSON.stringify({
+      success: failed.length === 0,
+      launched,
+      skipped,
+      failed,
+    }),
+  }
+}
+
+/**
+ * Scheduled handler (e.g. an EventBridge rule every few minutes) that starts
+ * the integration and billboard pipelines for broadcasts that finished airing
+ * more than ANALYSIS_GRACE_MINUTES ago, moving their statuses to
+ * DOWNLOADING_VIDEO.
+ *
+ * Invoked with a program slug plus a Day ID or date range, it instead launches
+ * analysis for that program's broadcasts in a batch.
+ */
+export const handler = async (event?: BatchLaunchEvent | object) => {
+  logEvent(event)
+
+  try {
+    if (event && "programSlug" in event) {
+      return await batchLaunch(event)
+    }
+    return await scheduleEndedBroadcasts()
+  } catch (error) {
+    logError("Error scheduling analysis", error)
+    return internalErrorResponse(error)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Broadcast day rules shared by every function that creates or looks up Days.
+ *
+ * A Day row's date is midnight UTC of its calendar date. Which Day an instant
+ * belongs to depends on the region's local time and the rollover hour: with a
+ * 5am rollover, a broadcast starting at 1am local belongs to the previous day.
+ */
+import { getRegion } from "./markets"
+
+// Local hour at which one broadcast day ends and the next begins
+export const BROADCAST_DAY_ROLLOVER_HOUR = parseInt(
+  process.env.BROADCAST_DAY_ROLLOVER_HOUR || "0"
+)
+
+/**
+ * Map region code to IANA timezone identifier from the market catalogue
+ */
+export function getTimezoneForRegion(region: string): string {
+  return getRegion(region)?.timezone || "Australia/Sydney"
+}
+
+interface LocalDateTime {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+// Wall clock time in a timezone at the given instant
+function toLocalDateTime(instant: Date, timeZone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((part) => part.type === type)!.value)
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  }
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+function getOffsetMs(instant: Date, timeZone: string): number {
+  const local = toLocalDateTime(instant, timeZone)
+  const localAsUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  )
+  return localAsUtc - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+/**
+ * Convert a wall clock time in a timezone to a UTC instant
+ */
+export function localToUtc(local: LocalDateTime, timeZone: string): Date {
+  const localAsUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  )
+
+  // Re-check the offset at the result in case it falls across a DST change
+  const firstOffset = getOffsetMs(new Date(localAsUtc), timeZone)
+  const secondOffset = getOffsetMs(new Date(localAsUtc - firstOffset), timeZone)
+  return new Date(localAsUtc - secondOffset)
+}
+
+/**
+ * Local date, time and timezone abbreviation of an instant in a region, e.g.
+ * for labelling when something aired
+ */
+export function formatLocalTime(
+  instant: Date,
+  region: string
+): { date: string; time: string; zone: string } {
+  const timeZone = getTimezoneForRegion(region)
+  const local = toLocalDateTime(instant, timeZone)
+  const pad = (value: number) => String(value).padStart(2, "0")
+  // en-AU gives Australian abbreviations (AEDT, ACST) rather than GMT offsets
+  const zone =
+    new Intl.DateTimeFormat("en-AU", { timeZone, timeZoneName: "short" })
+      .formatToParts(instant)
+      .find((part) => part.type === "timeZoneName")?.value || timeZone
+
+  return {
+    date: `${local.year}-${pad(local.month)}-${pad(local.day)}`,
+    time: `${pad(local.hour)}:${pad(local.minute)}:${pad(local.second)}`,
+    zone,
+  }
+}
+
+/**
+ * Day.date value for a calendar date (midnight UTC)
+ */
+export function dayDateFor(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+/**
+ * Day.date of the broadcast day an instant belongs to in a region
+ *
+ * @param instant - UTC instant, e.g. a broadcast or clip start time
+ * @param region - Region code from the market catalogue
+ * @param rolloverHour - Local hour the broadcast day starts at
+ */
+export function getBroadcastDay(
+  instant: Date,
+  region: string,
+  rolloverHour: number = BROADCAST_DAY_ROLLOVER_HOUR
+): Date {
+  // Shifting back by the rollover makes early-morning times land on the previous date
+  const shifted = new Date(instant.getTime() - rolloverHour * 60 * 60 * 1000)
+  const local = toLocalDateTime(shifted, getTimezoneForRegion(region))
+  return dayDateFor(local.year, local.month, local.day)
+}
+
+/**
+ * UTC start (inclusive) and end (exclusive) of a broadcast day in a region
+ *
+ * @param dayDate - Day.date (midnight UTC of the calendar date)
+ * @param region - Region code from the market catalogue
+ * @param rolloverHour - Local hour the broadcast day starts at
+ */
+export function getBroadcastDayWindow(
+  dayDate: Date,
+  region: string,
+  rolloverHour: number = BROADCAST_DAY_ROLLOVER_HOUR
+): { start: Date; end: Date } {
+  const timeZone = getTimezoneForRegion(region)
+  const next = new Date(dayDate.getTime() + 24 * 60 * 60 * 1000)
+
+  const boundary = (date: Date) =>
+    localToUtc(
+      {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour: rolloverHour,
+        minute: 0,
+        second: 0,
+      },
+      timeZone
+    )
+
+  return { start: boundary(dayDate), end: boundary(next) }
+}
@@ -0,0 +1,96 @@
+import { PipelineRunStatus } from "@prisma/client"
+import { describe, expect, it } from "vitest"
+import { runBudgets } from "./budgets"
+
+interface FakeRun {
+  status: PipelineRunStatus
+  estimatedCost: number
+  relaunchedAt: Date | null
+  steps: Record<string, { status: string; executed?: boolean }> | null
+}
+
+// Just the status and relaunch filters estimatedSpend uses; every run belongs
+// to the day
+function fakeDb(runs: FakeRun[]) {
+  const matching = ({ where }: any) =>
+    runs.filter(
+      (run) =>
+        run.relaunchedAt === where.relaunchedAt &&
+        (where.status.not
+          ? run.status !== where.status.not
+          : run.status === where.status)
+    )
+  return {
+    pipelineRun: {
+      aggregate: async (args: any) => ({
+        _sum: {
+          estimatedCost: matching(args).reduce(
+            (total, run) => total + run.estimatedCost,
+            0
+          ),
+        },
+      }),
+      findMany: async (args: any) => matching(args),
+    },
+  } as any
+}
+
+const run = (
+  status: PipelineRunStatus,
+  estimatedCost: number,
+  fields: Partial<FakeRun> = {}
+): FakeRun => ({
+  status,
+  estimatedCost,
+  relaunchedAt: null,
+  steps: null,
+  ...fields,
+})
+
+const day = {
+  id: "day-1",
+  name: "News - 4 January 2026",
+  analysisBudget: 100,
+  program: { id: "program-1", name: "News", analysisBudget: 1000 },
+}
+
+describe("runBudgets", () => {
+  it("counts finished, running and failed runs whose steps ran", async () => {
+    const db = fakeDb([
+      run(PipelineRunStatus.SUCCEEDED, 10),
+      run(PipelineRunStatus.EXECUTING, 20),
+      run(PipelineRunStatus.FAILED, 40, {
+        steps: { download: { status: "Failed", executed: true } },
+      }),
+    ])
+
+    const budgets = await runBudgets(db, day)
+    expect(budgets.map(({ spent }) => spent)).toEqual([70, 70])
+  })
+
+  it("skips failed runs where no step ran", async () => {
+    const db = fakeDb([
+      run(PipelineRunStatus.SUCCEEDED, 10),
+      run(PipelineRunStatus.FAILED, 40, {
+        steps: { download: { status: "Failed" } },
+      }),
+      run(PipelineRunStatus.FAILED, 80),
+    ])
+
+    const [program] = await runBudgets(db, day)
+    expect(program.spent).toBe(10)
+  })
+
+  it("counts a relaunched run through its replacement", async () => {
+    const db = fakeDb([
+      run(PipelineRunStatus.FAILED, 40, {
+        relaunchedAt: new Date(),
+        steps: { analysis: { status: "Failed", executed: true } },
+      }),
+      run(PipelineRunStatus.EXECUTING, 60),
+    ])
+
+    const [program] = await runBudgets(db, day)
+    expect(program.spent).toBe(60)
+  })
+})
@@ -0,0 +1,67 @@
+import { PrismaClient, Prisma, PipelineRunStatus } from "@prisma/client"
+import { Budget, budgetLimit } from "./costEstimate"
+
+interface BudgetedDay {
+  id: string
+  name: string
+  analysisBudget: number | null
+  program: { id: string; name: string; analysisBudget: number | null }
+}
+
+// Whether any of a run's steps got past Starting, going by the steps
+// pipeline-events records
+function anyStepExecuted(steps: Prisma.JsonValue): boolean {
+  const states = (steps as Record<string, { executed?: boolean }> | null) || {}
+  return Object.values(states).some((step) => step?.executed)
+}
+
+// Estimated cost of runs so far. Integration runs are linked to a broadcast
+// and billboard runs to a day, so both links are followed. A run replaced by
+// its on-demand relaunch is counted through the new run, and a failed run
+// only counts if one of its steps ran.
+async function estimatedSpend(
+  prisma: PrismaClient,
+  dayFilter: Prisma.DayWhereInput
+): Promise<number> {
+  const where: Prisma.PipelineRunWhereInput = {
+    OR: [{ day: dayFilter }, { broadcast: { day: dayFilter } }],
+    relaunchedAt: null,
+  }
+  const [{ _sum }, failedRuns] = await Promise.all([
+    prisma.pipelineRun.aggregate({
+      where: { ...where, status: { not: PipelineRunStatus.FAILED } },
+      _sum: { estimatedCost: true },
+    }),
+    prisma.pipelineRun.findMany({
+      where: { ...where, status: PipelineRunStatus.FAILED },
+      select: { estimatedCost: true, steps: true },
+    }),
+  ])
+  return failedRuns
+    .filter(({ steps }) => anyStepExecuted(steps))
+    .reduce(
+      (total, { estimatedCost }) => total + (estimatedCost ?? 0),
+      _sum.estimatedCost ?? 0
+    )
+}
+
+/**
+ * The program and day budgets a run for this day counts against
+ */
+export async function runBudgets(
+  prisma: PrismaClient,
+  day: BudgetedDay
+): Promise<Budget[]> {
+  return [
+    {
+      scope: `program ${day.program.name}`,
+      limit: budgetLimit(day.program.analysisBudget, "PROGRAM_BUDGET_USD"),
+      spent: await estimatedSpend(prisma, { programId: day.program.id }),
+    },
+    {
+      scope: `day ${day.name}`,
+      limit: budgetLimit(day.analysisBudget, "DAY_BUDGET_USD"),
+      spent: await estimatedSpend(prisma, { id: day.id }),
+    },
+  ]
+}
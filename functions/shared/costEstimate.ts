@@ -0,0 +1,256 @@
+/**
+ * Cost estimates and budget checks for analysis pipeline runs, shared by the
+ * integrations and billboards launchers.
+ *
+ * A step's runtime is estimated from the broadcast time it analyses, using the
+ * median runtime ratio of recent successful runs (or the launcher's default
+ * until there's enough history), capped at the step's maximum runtime.
+ */
+import instancePrices from "./instancePrices.json"
+import {
+  PipelineDefinition,
+  PipelineStep,
+  PipelineValue,
+  ProcessingStep,
+  TrainingStep,
+} from "./pipelineDefinition"
+
+// Hourly prices; INSTANCE_PRICES (JSON, e.g. {"ml.g5.xlarge": 2.1}) overrides
+// or extends the table
+const HOURLY_PRICES: Record<string, number> = {
+  ...instancePrices.hourly,
+  ...JSON.parse(process.env.INSTANCE_PRICES || "{}"),
+}
+
+// Fraction of the on-demand price paid with managed spot training
+const SPOT_PRICE_RATIO = parseFloat(process.env.SPOT_PRICE_RATIO || "0.4")
+
+// Successful runs needed before a step's historical ratio replaces its default
+const MIN_HISTORY_SAMPLES = 3
+
+// A past run, as recorded in PipelineRun
+export interface RuntimeSample {
+  mediaSeconds: number | null
+  steps: unknown // Step name -> { status, startedAt, endedAt }
+}
+
+interface RecordedStep {
+  status?: string
+  startedAt?: string
+  endedAt?: string
+}
+
+// Stored as PipelineRun.costEstimate, so JSON-compatible types
+export type StepCostEstimate = {
+  step: string
+  instanceType: string
+  hourlyPrice: number
+  spot: boolean
+  runtimeRatio: number | null // Step runtime per second of broadcast
+  ratioSource: "history" | "default" | "max-runtime"
+  estimatedSeconds: number
+  cost: number
+}
+
+export type CostEstimate = {
+  currency: string
+  mediaSeconds: number
+  total: number
+  steps: StepCostEstimate[]
+}
+
+interface EstimateOptions {
+  definition: PipelineDefinition
+  parameters: Record<string, string> // Values passed to the execution
+  mediaSeconds: number
+  defaultRatios: Record<string, number> // Step name -> runtime ratio
+  history: RuntimeSample[]
+}
+
+export interface Budget {
+  scope: string // e.g. "program Cricket 2026"
+  limit: number | null // null when unlimited
+  spent: number
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100
+
+// Instance types with a price, which are the ones launchers accept
+export const pricedInstanceTypes = () => Object.keys(HOURLY_PRICES)
+
+/**
+ * Hourly price of an instance type; unknown types throw so an unpriced
+ * instance can't be launched
+ */
+export function instancePrice(instanceType: string): number {
+  const price = HOURLY_PRICES[instanceType]
+  if (price === undefined) {
+    throw new Error(`No price configured for instance type ${instanceType}`)
+  }
+  return price
+}
+
+// Resolve a parameter reference to the value the execution will use
+function resolveValue(
+  value: PipelineValue,
+  definition: PipelineDefinition,
+  parameters: Record<string, string>
+): string {
+  if (typeof value !== "object") return String(value)
+
+  const name = "Get" in value && value.Get.match(/^Parameters\.(.+)$/)?.[1]
+  const declared = definition.Parameters.find(
+    (parameter) => parameter.Name === name
+  )
+  if (!name || !declared) {
+    throw new Error(
+      `Can't resolve ${JSON.stringify(value)} for a cost estimate`
+    )
+  }
+  return parameters[name] ?? String(declared.DefaultValue)
+}
+
+// Training and processing steps, including those inside condition branches
+function jobSteps(steps: PipelineStep[]): (TrainingStep | ProcessingStep)[] {
+  return steps.flatMap((step) =>
+    step.Type === "Condition"
+      ? jobSteps([...step.Arguments.IfSteps, ...step.Arguments.ElseSteps])
+      : [step]
+  )
+}
+
+/**
+ * Median runtime ratio of each step across successful runs with at least
+ * MIN_HISTORY_SAMPLES samples
+ */
+export function historicalRatios(
+  samples: RuntimeSample[]
+): Record<string, number> {
+  const ratios: Record<string, number[]> = {}
+  for (const { mediaSeconds, steps } of samples) {
+    if (!mediaSeconds || !steps || typeof steps !== "object") continue
+    for (const [name, step] of Object.entries(
+      steps as Record<string, RecordedStep | null>
+    )) {
+      if (step?.status !== "Succeeded" || !step.startedAt || !step.endedAt) {
+        continue
+      }
+      const runtime =
+        (new Date(step.endedAt).getTime() -
+          new Date(step.startedAt).getTime()) /
+        1000
+      if (runtime > 0) (ratios[name] ||= []).push(runtime / mediaSeconds)
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(ratios)
+      .filter(([, values]) => values.length >= MIN_HISTORY_SAMPLES)
+      .map(([name, values]) => {
+        const sorted = values.sort((a, b) => a - b)
+        const middle = Math.floor(sorted.length / 2)
+        const median =
+          sorted.length % 2
+            ? sorted[middle]
+            : (sorted[middle - 1] + sorted[middle]) / 2
+        return [name, median]
+      })
+  )
+}
+
+/**
+ * Estimate what a run of a pipeline definition will cost
+ */
+export function estimateRunCost({
+  definition,
+  parameters,
+  mediaSeconds,
+  defaultRatios,
+  history,
+}: EstimateOptions): CostEstimate {
+  const learned = historicalRatios(history)
+
+  const steps = jobSteps(definition.Steps).map((step): StepCostEstimate => {
+    const {
+      instanceType: value,
+      maxRuntimeInSeconds,
+      spot,
+    } = step.Type === "Training"
+      ? {
+          instanceType: step.Arguments.ResourceConfig.InstanceType,
+          maxRuntimeInSeconds:
+            step.Arguments.StoppingCondition.MaxRuntimeInSeconds,
+          spot: step.Arguments.EnableManagedSpotTraining === true,
+        }
+      : {
+          instanceType:
+            step.Arguments.ProcessingResources.ClusterConfig.InstanceType,
+          maxRuntimeInSeconds:
+            step.Arguments.StoppingCondition?.MaxRuntimeInSeconds ?? 86400,
+          spot: false,
+        }
+
+    const instanceType = resolveValue(value, definition, parameters)
+    const hourlyPrice = instancePrice(instanceType)
+    const runtimeRatio = learned[step.Name] ?? defaultRatios[step.Name] ?? null
+    const ratioSource =
+      step.Name in learned
+        ? "history"
+        : runtimeRatio !== null
+          ? "default"
+          : "max-runtime"
+    const estimatedSeconds = Math.round(
+      runtimeRatio === null
+        ? maxRuntimeInSeconds
+        : Math.min(runtimeRatio * mediaSeconds, maxRuntimeInSeconds)
+    )
+
+    return {
+      step: step.Name,
+      instanceType,
+      hourlyPrice,
+      spot,
+      runtimeRatio,
+      ratioSource,
+      estimatedSeconds,
+      cost: roundCents(
+        (estimatedSeconds / 3600) * hourlyPrice * (spot ? SPOT_PRICE_RATIO : 1)
+      ),
+    }
+  })
+
+  return {
+    currency: instancePrices.currency,
+    mediaSeconds,
+    total: roundCents(steps.reduce((total, step) => total + step.cost, 0)),
+    steps,
+  }
+}
+
+/**
+ * Budget limit from a program or day setting, falling back to an environment
+ * variable; null when neither is set
+ */
+export function budgetLimit(
+  configured: number | null,
+  envName: string
+): number | null {
+  if (configured !== null) return configured
+  const fallback = process.env[envName]
+  return fallback ? parseFloat(fallback) : null
+}
+
+/**
+ * Why a run would exceed one of its budgets, or null if it fits them all
+ */
+export function budgetRefusal(
+  estimate: CostEstimate,
+  budgets: Budget[]
+): string | null {
+  for (const { scope, limit, spent } of budgets) {
+    if (limit !== null && spent + estimate.total > limit) {
+      return `Estimated cost ${estimate.total.toFixed(2)} ${estimate.currency} would exceed the ${scope} budget (${spent.toFixed(2)} of ${limit.toFixed(2)} spent); pass overrideBudget to launch anyway`
+    }
+  }
+  return null
+}
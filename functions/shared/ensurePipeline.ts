@@ -0,0 +1,68 @@
+import {
+  SageMakerClient,
+  CreatePipelineCommand,
+  DescribePipelineCommand,
+  UpdatePipelineCommand,
+  ResourceNotFound,
+} from "@aws-sdk/client-sagemaker"
+import { PipelineDefinition } from "./pipelineDefinition"
+
+interface EnsurePipelineOptions {
+  pipelineName: string
+  definition: PipelineDefinition
+  description: string
+  roleArn: string
+}
+
+// Definition last written by this container for each pipeline, so warm
+// invocations skip the DescribePipeline call. Keyed by name, as variants with
+// different names can share a definition.
+const ensuredDefinitions = new Map<string, string>()
+
+/**
+ * Create the pipeline if it doesn't exist, or update it when its definition
+ * differs from the one SageMaker has. Runs never create pipelines of their own.
+ */
+export async function ensurePipeline(
+  client: SageMakerClient,
+  { pipelineName, definition, description, roleArn }: EnsurePipelineOptions
+): Promise<void> {
+  const pipelineDefinition = JSON.stringify(definition)
+  if (ensuredDefinitions.get(pipelineName) === pipelineDefinition) return
+
+  let currentDefinition: string | undefined
+  try {
+    const pipeline = await client.send(
+      new DescribePipelineCommand({ PipelineName: pipelineName })
+    )
+    currentDefinition = pipeline.PipelineDefinition
+  } catch (error) {
+    if (!(error instanceof ResourceNotFound)) throw error
+
+    console.log(`🆕 Creating pipeline ${pipelineName}`)
+    await client.send(
+      new CreatePipelineCommand({
+        PipelineName: pipelineName,
+        PipelineDefinition: pipelineDefinition,
+        PipelineDescription: description,
+        RoleArn: roleArn,
+      })
+    )
+    ensuredDefinitions.set(pipelineName, pipelineDefinition)
+    return
+  }
+
+  if (currentDefinition !== pipelineDefinition) {
+    console.log(`🔄 Updating pipeline ${pipelineName} definition`)
+    await client.send(
+      new UpdatePipelineCommand({
+        PipelineName: pipelineName,
+        PipelineDefinition: pipelineDefinition,
+        PipelineDescription: description,
+        RoleArn: roleArn,
+      })
+    )
+  }
+
+  ensuredDefinitions.set(pipelineName, pipelineDefinition)
+}
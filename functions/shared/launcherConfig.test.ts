@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  loadLauncherConfig,
+  localSecretStore,
+  verifySecretReference,
+} from "./launcherConfig"
+import { createSecretStore } from "./secretStore"
+
+const env = {
+  ROLE_ARN: "arn:aws:iam::123456789012:role/pipeline",
+  S3_BUCKET: "analysis-bucket",
+  DATABASE_SECRET_REF: "/analysis/database",
+}
+
+describe("loadLauncherConfig", () => {
+  it("reads an SSM parameter name", () => {
+    expect(loadLauncherConfig(env).databaseSecret).toEqual({
+      source: "ssm",
+      ref: "/analysis/database",
+    })
+  })
+
+  it("reads a Secrets Manager ARN", () => {
+    const ref =
+      "arn:aws:secretsmanager:ap-southeast-2:123456789012:secret:database-AbCdEf"
+    expect(
+      loadLauncherConfig({ ...env, DATABASE_SECRET_REF: ref }).databaseSecret
+    ).toEqual({ source: "secretsmanager", ref })
+  })
+
+  it("refuses a missing secret reference", () => {
+    expect(() =>
+      loadLauncherConfig({ ...env, DATABASE_SECRET_REF: undefined })
+    ).toThrow("DATABASE_SECRET_REF is not set")
+  })
+
+  it("refuses a malformed secret reference", () => {
+    expect(() =>
+      loadLauncherConfig({ ...env, DATABASE_SECRET_REF: "database" })
+    ).toThrow(
+      "DATABASE_SECRET_REF is not a Secrets Manager ARN or SSM parameter: database"
+    )
+  })
+
+  it("reports every problem at once", () => {
+    expect(() => loadLauncherConfig({})).toThrow(
+      [
+        "Invalid launcher configuration:",
+        "- ROLE_ARN is not set",
+        "- S3_BUCKET is not set",
+        "- DATABASE_SECRET_REF is not set (Secrets Manager ARN or SSM parameter name)",
+      ].join("\n")
+    )
+  })
+})
+
+// References are cached once verified, so each test uses its own
+describe("verifySecretReference", () => {
+  it("accepts a reference the store has", async () => {
+    const store = localSecretStore({ "/analysis/present": "secret" })
+    await expect(
+      verifySecretReference(store, { source: "ssm", ref: "/analysis/present" })
+    ).resolves.toBeUndefined()
+  })
+
+  it("refuses a reference that doesn't resolve", async () => {
+    const store = localSecretStore({ "/analysis/other": "secret" })
+    await expect(
+      verifySecretReference(store, { source: "ssm", ref: "/analysis/missing" })
+    ).rejects.toThrow("Database secret not found (ssm): /analysis/missing")
+  })
+})
+
+describe("createSecretStore", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("looks references up in LOCAL_SECRETS with SECRET_STORE=local", async () => {
+    vi.stubEnv("SECRET_STORE", "local")
+    vi.stubEnv("LOCAL_SECRETS", JSON.stringify({ "/analysis/local": "x" }))
+    const store = createSecretStore("ap-southeast-2")
+
+    expect(await store.exists({ source: "ssm", ref: "/analysis/local" })).toBe(
+      true
+    )
+    await expect(
+      verifySecretReference(store, { source: "ssm", ref: "/analysis/unset" })
+    ).rejects.toThrow("Database secret not found (ssm): /analysis/unset")
+  })
+})
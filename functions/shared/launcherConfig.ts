@@ -0,0 +1,136 @@
+/**
+ * Configuration shared by the integrations and billboards launchers, checked
+ * up front so a missing setting fails the launch with a clear message rather
+ * than producing a broken pipeline definition.
+ *
+ * Steps never receive database credentials. They get a reference to a Secrets
+ * Manager secret or SSM parameter (DB_SECRET_SOURCE and DB_SECRET_REF) and
+ * resolve it at runtime with the pipeline role.
+ */
+
+export type SecretSource = "secretsmanager" | "ssm"
+
+export interface SecretReference {
+  source: SecretSource
+  ref: string // Secret ARN, or SSM parameter name or ARN
+}
+
+export interface LauncherConfig {
+  roleArn: string
+  bucket: string
+  databaseSecret: SecretReference
+}
+
+// Looks up secrets so a launch can check its reference resolves
+export interface SecretStore {
+  exists(reference: SecretReference): Promise<boolean>
+}
+
+const ROLE_ARN_PATTERN = /^arn:aws[a-z-]*:iam::\d{12}:role\/.+$/
+const SECRET_ARN_PATTERN =
+  /^arn:aws[a-z-]*:secretsmanager:[a-z0-9-]+:\d{12}:secret:.+$/
+const PARAMETER_ARN_PATTERN =
+  /^arn:aws[a-z-]*:ssm:[a-z0-9-]+:\d{12}:parameter\/.+$/
+const PARAMETER_NAME_PATTERN = /^\/[A-Za-z0-9_.\-/]+$/
+
+/**
+ * Parse a secret reference: a Secrets Manager ARN, an SSM parameter ARN or an
+ * SSM parameter name starting with "/"
+ */
+export function parseSecretReference(value: string): SecretReference | null {
+  if (SECRET_ARN_PATTERN.test(value)) {
+    return { source: "secretsmanager", ref: value }
+  }
+  if (PARAMETER_ARN_PATTERN.test(value) || PARAMETER_NAME_PATTERN.test(value)) {
+    return { source: "ssm", ref: value }
+  }
+  return null
+}
+
+/**
+ * Read and validate ROLE_ARN, S3_BUCKET and DATABASE_SECRET_REF. Every problem
+ * is reported at once.
+ */
+export function loadLauncherConfig(
+  env: Record<string, string | undefined> = process.env
+): LauncherConfig {
+  const problems: string[] = []
+  const { ROLE_ARN, S3_BUCKET, DATABASE_SECRET_REF } = env
+
+  if (!ROLE_ARN) {
+    problems.push("ROLE_ARN is not set")
+  } else if (!ROLE_ARN_PATTERN.test(ROLE_ARN)) {
+    problems.push(`ROLE_ARN is not an IAM role ARN: ${ROLE_ARN}`)
+  }
+
+  if (!S3_BUCKET) {
+    problems.push("S3_BUCKET is not set")
+  }
+
+  const databaseSecret = DATABASE_SECRET_REF
+    ? parseSecretReference(DATABASE_SECRET_REF)
+    : null
+  if (!DATABASE_SECRET_REF) {
+    problems.push(
+      "DATABASE_SECRET_REF is not set (Secrets Manager ARN or SSM parameter name)"
+    )
+  } else if (!databaseSecret) {
+    problems.push(
+      `DATABASE_SECRET_REF is not a Secrets Manager ARN or SSM parameter: ${DATABASE_SECRET_REF}`
+    )
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid launcher configuration:\n${problems.map((problem) => `- ${problem}`).join("\n")}`
+    )
+  }
+
+  return {
+    roleArn: ROLE_ARN!,
+    bucket: S3_BUCKET!,
+    databaseSecret: databaseSecret!,
+  }
+}
+
+// References already confirmed in this container
+const verifiedReferences = new Set<string>()
+
+/**
+ * Fail if the secret reference doesn't resolve in the store
+ */
+export async function verifySecretReference(
+  store: SecretStore,
+  reference: SecretReference
+): Promise<void> {
+  const key = `${reference.source}:${reference.ref}`
+  if (verifiedReferences.has(key)) return
+
+  if (!(await store.exists(reference))) {
+    throw new Error(
+      `Database secret not found (${reference.source}): ${reference.ref}`
+    )
+  }
+  verifiedReferences.add(key)
+}
+
+/**
+ * In-memory secret store keyed by reference, for running launchers locally
+ * and in tests without AWS
+ */
+export function localSecretStore(secrets: Record<string, string>): SecretStore {
+  return {
+    exists: async ({ ref }) => ref in secrets,
+  }
+}
+
+/**
+ * Step environment pointing at the database secret
+ */
+export const databaseSecretEnvironment = ({
+  source,
+  ref,
+}: SecretReference) => ({
+  DB_SECRET_SOURCE: source,
+  DB_SECRET_REF: ref,
+})
@@ -0,0 +1,23 @@
+/**
+ * Logging conventions shared by the handlers, so every function's CloudWatch
+ * output reads the same way. LOG_LEVEL=debug enables debug lines.
+ */
+
+const DEBUG = process.env.LOG_LEVEL === "debug"
+
+// Log the invocation's event at the start of a handler
+export function logEvent(event: unknown) {
+  console.log("📥 Received event:", JSON.stringify(event, null, 2))
+}
+
+// Log an error a handler caught, with its stack when there is one
+export function logError(context: string, error: unknown) {
+  console.error(
+    `❌ ${context}:`,
+    error instanceof Error ? error.stack || error.message : error
+  )
+}
+
+export function logDebug(message: string, ...details: unknown[]) {
+  if (DEBUG) console.log(`🔍 ${message}`, ...details)
+}
@@ -0,0 +1,125 @@
+/**
+ * Channel and region catalogue shared by every function.
+ *
+ * Markets are defined in markets.json. Adding a channel or region only needs
+ * a new entry there: codes are stored as-is on Broadcast and LogFile rows,
+ * log aliases are matched against LOG file names and stream fragments are
+ * used to build simulcast stream URLs.
+ */
+import catalogue from "./markets.json"
+
+export interface ChannelConfig {
+  code: string // Stored on Broadcast.channel
+  name: string
+  logAliases: string[] // Channel names used in LOG file names
+  stream: string // Channel fragment of simulcast stream URLs
+}
+
+export interface RegionConfig {
+  code: string // Stored on Broadcast.region
+  name: string
+  logAliases: string[] // Region names used in LOG file names
+  timezone: string // IANA timezone identifier
+  stream: string // Region fragment of simulcast stream URLs
+  metro: boolean // LOG files for metro regions are linked to their Day
+}
+
+export interface MarketCatalogue {
+  channels: ChannelConfig[]
+  regions: RegionConfig[]
+}
+
+const markets: MarketCatalogue = catalogue
+
+/**
+ * List all channels in the catalogue
+ */
+export function getChannels(): ChannelConfig[] {
+  return markets.channels
+}
+
+/**
+ * List all regions in the catalogue
+ */
+export function getRegions(): RegionConfig[] {
+  return markets.regions
+}
+
+/**
+ * Look up a channel by its code (case-insensitive)
+ */
+export function getChannel(code: string): ChannelConfig | null {
+  return (
+    markets.channels.find(
+      (channel) => channel.code.toUpperCase() === code.toUpperCase()
+    ) || null
+  )
+}
+
+/**
+ * Look up a region by its code (case-insensitive)
+ */
+export function getRegion(code: string): RegionConfig | null {
+  return (
+    markets.regions.find(
+      (region) => region.code.toUpperCase() === code.toUpperCase()
+    ) || null
+  )
+}
+
+/**
+ * Map a LOG file channel name to a catalogue channel
+ */
+export function findChannelByLogAlias(alias: string): ChannelConfig | null {
+  return (
+    markets.channels.find((channel) =>
+      channel.logAliases.some(
+        (logAlias) => logAlias.toUpperCase() === alias.toUpperCase()
+      )
+    ) || null
+  )
+}
+
+/**
+ * Map a LOG file region name to a catalogue region
+ */
+export function findRegionByLogAlias(alias: string): RegionConfig | null {
+  return (
+    markets.regions.find((region) =>
+      region.logAliases.some(
+        (logAlias) => logAlias.toUpperCase() === alias.toUpperCase()
+      )
+    ) || null
+  )
+}
+
+/**
+ * Simulcast HLS stream URL for a channel and region between two timestamps.
+ * STREAM_BASE_URL replaces the CDN (e.g. with a local HLS server), serving
+ * <base>/<region>/<channel>/index.m3u8.
+ *
+ * @param channelCode - Catalogue channel code
+ * @param regionCode - Catalogue region code
+ * @param start - Unix timestamp (seconds)
+ * @param end - Unix timestamp (seconds)
+ * @param videoHeight - Video rendition to request (720 or 1080)
+ */
+export function getStreamUrl(
+  channelCode: string,
+  regionCode: string,
+  start: number,
+  end: number,
+  videoHeight = 720
+): string {
+  const channel = getChannel(channelCode)
+  const region = getRegion(regionCode)
+  if (!channel || !region) {
+    throw new Error(`Unknown market: ${channelCode}-${regionCode}`)
+  }
+
+  if (process.env.STREAM_BASE_URL) {
+    return `${process.env.STREAM_BASE_URL}/${region.stream}/${channel.stream}/index.m3u8?start=${start}&end=${end}`
+  }
+
+  return `https://prod-simulcast-${region.stream}-${channel.stream}.livestream-cdn.9vms.com.au/u/prod/simulcast/${region.stream}/${channel.stream}/hls/r1/index.m3u8?start=${start}&end=${end}&aws.manifestfilter=audio_codec:AACL;video_height:${videoHeight}-${videoHeight};video_framerate:25-25`
+}
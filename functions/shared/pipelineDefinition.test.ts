@@ -0,0 +1,211 @@
+import { describe, expect, it } from "vitest"
+import {
+  buildPipelineDefinition,
+  ConditionStep,
+  param,
+  PipelineDefinition,
+  PipelineStep,
+  retryPolicies,
+  scriptTrainingStep,
+  ScriptTrainingStepOptions,
+  stepProperty,
+  stringParameter,
+  TrainingStep,
+  validatePipelineDefinition,
+} from "./pipelineDefinition"
+
+const parameters = [
+  stringParameter("InstanceType", "ml.t3.large"),
+  stringParameter("Script"),
+]
+
+const step = (
+  name: string,
+  options: Partial<ScriptTrainingStepOptions> = {}
+): TrainingStep =>
+  scriptTrainingStep({
+    name,
+    image: "image",
+    roleArn: "arn:aws:iam::123456789012:role/pipeline",
+    instanceType: param("InstanceType"),
+    volumeSizeInGB: 30,
+    maxRuntimeInSeconds: 3600,
+    outputPath: "s3://analysis-bucket/output/",
+    script: param("Script"),
+    environment: {},
+    ...options,
+  })
+
+const definition = (steps: PipelineStep[]): PipelineDefinition => ({
+  Version: "2020-12-01",
+  Metadata: {},
+  Parameters: parameters,
+  Steps: steps,
+})
+
+describe("validatePipelineDefinition", () => {
+  it("accepts a valid definition", () => {
+    expect(
+      validatePipelineDefinition(
+        definition([
+          step("download", { retryPolicies: retryPolicies() }),
+          step("analysis", {
+            dependsOn: ["download"],
+            spot: { checkpointPath: "s3://analysis-bucket/checkpoints/" },
+          }),
+        ])
+      )
+    ).toEqual([])
+  })
+
+  it("reports a dependency on an unknown step", () => {
+    expect(
+      validatePipelineDefinition(
+        definition([step("analysis", { dependsOn: ["download"] })])
+      )
+    ).toEqual(["Step analysis depends on unknown step download"])
+  })
+
+  it("reports a step that depends on itself", () => {
+    expect(
+      validatePipelineDefinition(
+        definition([step("analysis", { dependsOn: ["analysis"] })])
+      )
+    ).toEqual([
+      "Step analysis depends on itself",
+      "Dependency cycle: analysis → analysis",
+    ])
+  })
+
+  it("reports a dependency cycle", () => {
+    expect(
+      validatePipelineDefinition(
+        definition([
+          step("download", { dependsOn: ["cleanup"] }),
+          step("analysis", { dependsOn: ["download"] }),
+          step("cleanup", { dependsOn: ["analysis"] }),
+        ])
+      )
+    ).toEqual(["Dependency cycle: download → cleanup → analysis → download"])
+  })
+
+  it("reports duplicate and invalid step names, including in branches", () => {
+    const condition: ConditionStep = {
+      Name: "check",
+      Type: "Condition",
+      Arguments: {
+        Conditions: [
+          {
+            Type: "Equals",
+            LeftValue: stepProperty("download", "TrainingJobStatus"),
+            RightValue: "Completed",
+          },
+        ],
+        IfSteps: [step("download")],
+        ElseSteps: [step("analysis step")],
+      },
+    }
+
+    expect(
+      validatePipelineDefinition(definition([step("download"), condition]))
+    ).toEqual([
+      "Duplicate step name: download",
+      "Invalid step name: analysis step",
+    ])
+  })
+
+  it("reports undeclared parameters and unknown step references", () => {
+    expect(
+      validatePipelineDefinition(
+        definition([
+          step("analysis", {
+            environment: {
+              BROADCAST_ID: param("BroadcastId"),
+              DOWNLOAD: stepProperty("download", "ModelArtifacts"),
+            },
+          }),
+        ])
+      )
+    ).toEqual([
+      "Step analysis uses undeclared parameter BroadcastId",
+      "Step analysis references unknown step download",
+    ])
+  })
+
+  it("reports a duplicate parameter", () => {
+    expect(
+      validatePipelineDefinition({
+        ...definition([step("analysis")]),
+        Parameters: [...parameters, stringParameter("Script")],
+      })
+    ).toEqual(["Duplicate parameter: Script"])
+  })
+
+  it("reports a spot step without time to wait for capacity", () => {
+    const spot = step("analysis", {
+      spot: {
+        maxWaitTimeInSeconds: 1800,
+        checkpointPath: "s3://analysis-bucket/checkpoints/",
+      },
+    })
+    const noWait = step("audio", {
+      spot: { checkpointPath: "s3://analysis-bucket/checkpoints/" },
+    })
+    delete noWait.Arguments.StoppingCondition.MaxWaitTimeInSeconds
+
+    expect(validatePipelineDefinition(definition([spot, noWait]))).toEqual([
+      "Spot step analysis needs MaxWaitTimeInSeconds of at least MaxRuntimeInSeconds",
+      "Spot step audio needs MaxWaitTimeInSeconds of at least MaxRuntimeInSeconds",
+    ])
+  })
+
+  it("reports retry attempts outside 1-20", () => {
+    expect(
+      validatePipelineDefinition(
+        definition([
+          step("download", {
+            retryPolicies: retryPolicies({ maxAttempts: 21 }),
+          }),
+          step("analysis", {
+            retryPolicies: [
+              { ExceptionType: ["Step.SERVICE_FAULT"], MaxAttempts: 0 },
+            ],
+          }),
+          step("cleanup", {
+            retryPolicies: retryPolicies({ maxAttempts: 20 }),
+          }),
+        ])
+      )
+    ).toEqual([
+      // One per policy: service faults, then SageMaker job errors
+      "Step download retry MaxAttempts must be 1-20",
+      "Step download retry MaxAttempts must be 1-20",
+      "Step analysis retry MaxAttempts must be 1-20",
+    ])
+  })
+})
+
+describe("buildPipelineDefinition", () => {
+  it("throws with every problem", () => {
+    expect(() =>
+      buildPipelineDefinition(parameters, [
+        step("analysis", {
+          dependsOn: ["download"],
+          environment: { BROADCAST_ID: param("BroadcastId") },
+        }),
+      ])
+    ).toThrow(
+      [
+        "Invalid pipeline definition:",
+        "- Step analysis depends on unknown step download",
+        "- Step analysis uses undeclared parameter BroadcastId",
+      ].join("\n")
+    )
+  })
+})
+
+describe("retryPolicies", () => {
+  it("turns retries off with no attempts", () => {
+    expect(retryPolicies({ maxAttempts: 0 })).toEqual([])
+  })
+})
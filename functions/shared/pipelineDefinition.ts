@@ -0,0 +1,537 @@
+/**
+ * Typed builder for SageMaker pipeline definitions, shared by the integrations
+ * and billboards launchers.
+ *
+ * Definitions are checked before they are submitted: step names must be valid
+ * and unique, DependsOn and condition branches must reference real steps, the
+ * dependency graph must not loop, every parameter reference must be declared
+ * and spot steps must allow time to wait for capacity. SageMaker would
+ * otherwise only report these when a run starts.
+ */
+
+export type ParameterType = "String" | "Integer" | "Float" | "Boolean"
+
+export interface PipelineParameter {
+  Name: string
+  Type: ParameterType
+  DefaultValue?: string | number | boolean
+}
+
+// Run-time reference to a parameter, execution variable or step property
+export interface PipelineReference {
+  Get: string
+}
+
+export interface PipelineJoin {
+  "Std:Join": { On: string; Values: PipelineValue[] }
+}
+
+export type PipelineValue =
+  string | number | boolean | PipelineReference | PipelineJoin
+
+export type RetryExceptionType =
+  | "Step.SERVICE_FAULT"
+  | "Step.THROTTLING"
+  | "SageMaker.JOB_INTERNAL_ERROR"
+  | "SageMaker.CAPACITY_ERROR"
+  | "SageMaker.RESOURCE_LIMIT"
+
+export interface RetryPolicy {
+  ExceptionType: RetryExceptionType[]
+  IntervalSeconds?: number
+  BackoffRate?: number
+  MaxAttempts?: number
+  ExpireAfterMin?: number
+}
+
+export interface TrainingArguments {
+  AlgorithmSpecification: {
+    TrainingImage: string
+    TrainingInputMode: "File" | "Pipe" | "FastFile"
+  }
+  RoleArn: string
+  OutputDataConfig: { S3OutputPath: PipelineValue }
+  ResourceConfig: {
+    InstanceType: PipelineValue
+    InstanceCount: number
+    VolumeSizeInGB: number
+  }
+  StoppingCondition: {
+    MaxRuntimeInSeconds: number
+    MaxWaitTimeInSeconds?: number // Required with managed spot training
+  }
+  EnableManagedSpotTraining?: boolean
+  CheckpointConfig?: { S3Uri: PipelineValue; LocalPath?: string }
+  HyperParameters?: Record<string, PipelineValue>
+  Environment?: Record<string, PipelineValue>
+}
+
+export interface ProcessingArguments {
+  ProcessingResources: {
+    ClusterConfig: {
+      InstanceType: PipelineValue
+      InstanceCount: number
+      VolumeSizeInGB: number
+    }
+  }
+  AppSpecification: {
+    ImageUri: string
+    ContainerEntrypoint?: string[]
+    ContainerArguments?: PipelineValue[]
+  }
+  RoleArn: string
+  StoppingCondition?: { MaxRuntimeInSeconds: number }
+  Environment?: Record<string, PipelineValue>
+  ProcessingInputs?: {
+    InputName: string
+    S3Input: {
+      S3Uri: PipelineValue
+      LocalPath: string
+      S3DataType: "S3Prefix" | "ManifestFile"
+      S3InputMode: "File" | "Pipe"
+    }
+  }[]
+  ProcessingOutputConfig?: {
+    Outputs: {
+      OutputName: string
+      S3Output: {
+        S3Uri: PipelineValue
+        LocalPath: string
+        S3UploadMode: "Continuous" | "EndOfJob"
+      }
+    }[]
+  }
+}
+
+export type ConditionType =
+  | "Equals"
+  | "GreaterThan"
+  | "GreaterThanOrEqualTo"
+  | "LessThan"
+  | "LessThanOrEqualTo"
+
+export interface PipelineCondition {
+  Type: ConditionType
+  LeftValue: PipelineValue
+  RightValue: PipelineValue
+}
+
+interface StepBase {
+  Name: string
+  DependsOn?: string[]
+}
+
+export interface TrainingStep extends StepBase {
+  Type: "Training"
+  Arguments: TrainingArguments
+  RetryPolicies?: RetryPolicy[]
+}
+
+export interface ProcessingStep extends StepBase {
+  Type: "Processing"
+  Arguments: ProcessingArguments
+  RetryPolicies?: RetryPolicy[]
+}
+
+export interface ConditionStep extends StepBase {
+  Type: "Condition"
+  Arguments: {
+    Conditions: PipelineCondition[]
+    IfSteps: PipelineStep[]
+    ElseSteps: PipelineStep[]
+  }
+}
+
+export type PipelineStep = TrainingStep | ProcessingStep | ConditionStep
+
+export interface PipelineDefinition {
+  Version: "2020-12-01"
+  Metadata: Record<string, never>
+  Parameters: PipelineParameter[]
+  Steps: PipelineStep[]
+}
+
+// Deep learning container images used by the analysis steps
+export const TRAINING_IMAGES = {
+  pytorch20:
+    "763104351884.dkr.ecr.ap-southeast-2.amazonaws.com/pytorch-training:2.0.0-gpu-py310",
+  pytorch25:
+    "763104351884.dkr.ecr.ap-southeast-2.amazonaws.com/pytorch-training:2.5.1-gpu-py311",
+}
+
+// Launch requests keep these as they are in PipelineRun.request, so they're
+// types rather than interfaces and stay assignable to Prisma's JSON input
+export type RetryOptions = {
+  maxAttempts?: number // 0 disables retries
+  intervalSeconds?: number
+  backoffRate?: number
+}
+
+export type SpotOptions = {
+  enabled: boolean
+  // Total time allowed including waiting for spot capacity; defaults to twice
+  // the step's maximum runtime
+  maxWaitTimeInSeconds?: number
+  // Relaunch on on-demand instances when spot capacity isn't available
+  fallbackToOnDemand?: boolean
+}
+
+// Spot steps save checkpoints here and resume from them after an interruption
+export const CHECKPOINT_LOCAL_PATH = "/opt/ml/checkpoints"
+
+// Retry and spot settings for a run, after applying defaults
+export interface RunSettings {
+  retry: Required<RetryOptions>
+  spot: Required<Omit<SpotOptions, "maxWaitTimeInSeconds">> &
+    Pick<SpotOptions, "maxWaitTimeInSeconds">
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  intervalSeconds: 60,
+  backoffRate: 2,
+}
+
+// Whether analysis steps use spot capacity when a request doesn't say
+const SPOT_TRAINING_BY_DEFAULT = process.env.SPOT_TRAINING === "true"
+
+/**
+ * Apply defaults to a launcher request's retry and spot options
+ */
+export function resolveRunSettings(request: {
+  retry?: RetryOptions
+  spot?: Partial<SpotOptions>
+}): RunSettings {
+  return {
+    retry: { ...DEFAULT_RETRY_OPTIONS, ...request.retry },
+    spot: {
+      enabled: SPOT_TRAINING_BY_DEFAULT,
+      fallbackToOnDemand: true,
+      ...request.spot,
+    },
+  }
+}
+
+// The parts of the settings baked into a pipeline definition
+const definitionSettings = ({ retry, spot }: RunSettings) =>
+  JSON.stringify({
+    retry,
+    spot: spot.enabled ? (spot.maxWaitTimeInSeconds ?? null) : false,
+  })
+
+/**
+ * Name of the pipeline for a run's settings. Retry policies and spot training
+ * can't be pipeline parameters, so non-default settings get their own
+ * reusable pipeline alongside the base one. Launchers pass any other
+ * definition choices (e.g. a subset of steps) as `variant`.
+ */
+export function pipelineVariantName(
+  baseName: string,
+  settings: RunSettings,
+  variant: Record<string, unknown> = {}
+): string {
+  const defaultKey = definitionSettings(resolveRunSettings({}))
+  const key =
+    Object.keys(variant).length > 0
+      ? `${definitionSettings(settings)}${JSON.stringify(variant)}`
+      : definitionSettings(settings)
+  if (key === defaultKey) return baseName
+
+  // Short, stable hash of the settings (FNV-1a)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193) >>> 0
+  }
+  return `${baseName}-${hash.toString(16).padStart(8, "0")}`
+}
+
+/**
+ * Retry policies for transient failures: service faults and throttling, and
+ * SageMaker job errors including capacity shortages
+ */
+export function retryPolicies({
+  maxAttempts = DEFAULT_RETRY_OPTIONS.maxAttempts,
+  intervalSeconds = DEFAULT_RETRY_OPTIONS.intervalSeconds,
+  backoffRate = DEFAULT_RETRY_OPTIONS.backoffRate,
+}: RetryOptions = {}): RetryPolicy[] {
+  if (maxAttempts <= 0) return []
+
+  const policy = {
+    IntervalSeconds: intervalSeconds,
+    BackoffRate: backoffRate,
+    MaxAttempts: maxAttempts,
+  }
+  return [
+    { ExceptionType: ["Step.SERVICE_FAULT", "Step.THROTTLING"], ...policy },
+    {
+      ExceptionType: [
+        "SageMaker.JOB_INTERNAL_ERROR",
+        "SageMaker.CAPACITY_ERROR",
+        "SageMaker.RESOURCE_LIMIT",
+      ],
+      ...policy,
+    },
+  ]
+}
+
+/**
+ * Reference a pipeline parameter, resolved by SageMaker when a run starts
+ */
+export const param = (name: string): PipelineReference => ({
+  Get: `Parameters.${name}`,
+})
+
+/**
+ * Reference a property of an earlier step, e.g. stepProperty("download",
+ * "TrainingJobStatus")
+ */
+export const stepProperty = (
+  stepName: string,
+  property: string
+): PipelineReference => ({ Get: `Steps.${stepName}.${property}` })
+
+/**
+ * Concatenate strings and references at run time
+ */
+export const join = (...values: PipelineValue[]): PipelineJoin => ({
+  "Std:Join": { On: "", Values: values },
+})
+
+/**
+ * Declare a string parameter, optionally with a default
+ */
+export const stringParameter = (
+  name: string,
+  defaultValue?: string
+): PipelineParameter =>
+  defaultValue === undefined
+    ? { Name: name, Type: "String" }
+    : { Name: name, Type: "String", DefaultValue: defaultValue }
+
+export interface ScriptTrainingStepOptions {
+  name: string
+  image: string
+  roleArn: string
+  instanceType: PipelineValue
+  volumeSizeInGB: number
+  maxRuntimeInSeconds: number
+  outputPath: PipelineValue
+  script: PipelineValue // S3 URI of the sourcedir.tar.gz holding main.py
+  environment: Record<string, PipelineValue>
+  dependsOn?: string[]
+  retryPolicies?: RetryPolicy[]
+  // Run on managed spot capacity, checkpointing to this S3 path
+  spot?: { maxWaitTimeInSeconds?: number; checkpointPath: PipelineValue }
+}
+
+/**
+ * Training step that runs main.py from a source bundle in S3, the shape every
+ * analysis step uses
+ */
+export function scriptTrainingStep(
+  options: ScriptTrainingStepOptions
+): TrainingStep {
+  const step: TrainingStep = {
+    Name: options.name,
+    Type: "Training",
+    Arguments: {
+      AlgorithmSpecification: {
+        TrainingImage: options.image,
+        TrainingInputMode: "File",
+      },
+      RoleArn: options.roleArn,
+      OutputDataConfig: { S3OutputPath: options.outputPath },
+      ResourceConfig: {
+        InstanceType: options.instanceType,
+        InstanceCount: 1,
+        VolumeSizeInGB: options.volumeSizeInGB,
+      },
+      StoppingCondition: {
+        MaxRuntimeInSeconds: options.maxRuntimeInSeconds,
+      },
+      HyperParameters: {
+        sagemaker_program: "main.py",
+        sagemaker_submit_directory: options.script,
+      },
+      Environment: options.environment,
+    },
+  }
+
+  if (options.spot) {
+    step.Arguments.EnableManagedSpotTraining = true
+    step.Arguments.StoppingCondition.MaxWaitTimeInSeconds =
+      options.spot.maxWaitTimeInSeconds ?? options.maxRuntimeInSeconds * 2
+    step.Arguments.CheckpointConfig = {
+      S3Uri: options.spot.checkpointPath,
+      LocalPath: CHECKPOINT_LOCAL_PATH,
+    }
+  }
+
+  if (options.dependsOn?.length) step.DependsOn = options.dependsOn
+  if (options.retryPolicies?.length) step.RetryPolicies = options.retryPolicies
+  return step
+}
+
+// SageMaker step names: letters, digits, hyphens and underscores, up to 64 characters
+const STEP_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+// Steps at every level, including condition branches
+function flattenSteps(steps: PipelineStep[]): PipelineStep[] {
+  return steps.flatMap((step) =>
+    step.Type === "Condition"
+      ? [
+          step,
+          ...flattenSteps(step.Arguments.IfSteps),
+          ...flattenSteps(step.Arguments.ElseSteps),
+        ]
+      : [step]
+  )
+}
+
+// Every "Get" reference inside a value tree
+function collectReferences(value: unknown, references: string[] = []) {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectReferences(item, references))
+  } else if (value && typeof value === "object") {
+    for (const [key, nested] of Object.entries(value)) {
+      if (key === "Get" && typeof nested === "string") {
+        references.push(nested)
+      } else {
+        collectReferences(nested, references)
+      }
+    }
+  }
+  return references
+}
+
+// Names of steps involved in a dependency cycle, if any
+function findCycle(steps: PipelineStep[]): string[] | null {
+  const dependsOn = new Map(steps.map((step) => [step.Name, step.DependsOn]))
+  const visiting = new Set<string>()
+  const done = new Set<string>()
+
+  const visit = (name: string, path: string[]): string[] | null => {
+    if (visiting.has(name)) return [...path.slice(path.indexOf(name)), name]
+    if (done.has(name)) return null
+
+    visiting.add(name)
+    for (const dependency of dependsOn.get(name) || []) {
+      if (!dependsOn.has(dependency)) continue
+      const cycle = visit(dependency, [...path, name])
+      if (cycle) return cycle
+    }
+    visiting.delete(name)
+    done.add(name)
+    return null
+  }
+
+  for (const step of steps) {
+    const cycle = visit(step.Name, [])
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * List the problems with a pipeline definition; empty when it is valid
+ */
+export function validatePipelineDefinition(
+  definition: PipelineDefinition
+): string[] {
+  const problems: string[] = []
+  const steps = flattenSteps(definition.Steps)
+  const stepNames = new Set<string>()
+  const parameterNames = new Set<string>()
+
+  for (const parameter of definition.Parameters) {
+    if (parameterNames.has(parameter.Name)) {
+      problems.push(`Duplicate parameter: ${parameter.Name}`)
+    }
+    parameterNames.add(parameter.Name)
+  }
+
+  for (const step of steps) {
+    if (!STEP_NAME_PATTERN.test(step.Name)) {
+      problems.push(`Invalid step name: ${step.Name}`)
+    }
+    if (stepNames.has(step.Name)) {
+      problems.push(`Duplicate step name: ${step.Name}`)
+    }
+    stepNames.add(step.Name)
+  }
+
+  for (const step of steps) {
+    for (const dependency of step.DependsOn || []) {
+      if (dependency === step.Name) {
+        problems.push(`Step ${step.Name} depends on itself`)
+      } else if (!stepNames.has(dependency)) {
+        problems.push(`Step ${step.Name} depends on unknown step ${dependency}`)
+      }
+    }
+
+    // Branch steps are checked on their own
+    const args =
+      step.Type === "Condition" ? step.Arguments.Conditions : step.Arguments
+    for (const reference of collectReferences(args)) {
+      const [scope, name] = reference.split(".")
+      if (scope === "Parameters" && !parameterNames.has(name)) {
+        problems.push(`Step ${step.Name} uses undeclared parameter ${name}`)
+      } else if (scope === "Steps" && !stepNames.has(name)) {
+        problems.push(`Step ${step.Name} references unknown step ${name}`)
+      }
+    }
+  }
+
+  for (const step of steps) {
+    if (step.Type === "Training" && step.Arguments.EnableManagedSpotTraining) {
+      const { MaxRuntimeInSeconds, MaxWaitTimeInSeconds } =
+        step.Arguments.StoppingCondition
+      if (!MaxWaitTimeInSeconds || MaxWaitTimeInSeconds < MaxRuntimeInSeconds) {
+        problems.push(
+          `Spot step ${step.Name} needs MaxWaitTimeInSeconds of at least MaxRuntimeInSeconds`
+        )
+      }
+    }
+
+    for (const policy of step.Type === "Condition"
+      ? []
+      : step.RetryPolicies || []) {
+      if (
+        policy.MaxAttempts !== undefined &&
+        (policy.MaxAttempts < 1 || policy.MaxAttempts > 20)
+      ) {
+        problems.push(`Step ${step.Name} retry MaxAttempts must be 1-20`)
+      }
+    }
+  }
+
+  const cycle = findCycle(steps)
+  if (cycle) {
+    problems.push(`Dependency cycle: ${cycle.join(" → ")}`)
+  }
+
+  return problems
+}
+
+/**
+ * Assemble and validate a pipeline definition. Throws with every problem
+ * found, so a broken definition is never submitted to SageMaker.
+ */
+export function buildPipelineDefinition(
+  parameters: PipelineParameter[],
+  steps: PipelineStep[]
+): PipelineDefinition {
+  const definition: PipelineDefinition = {
+    Version: "2020-12-01",
+    Metadata: {},
+    Parameters: parameters,
+    Steps: steps,
+  }
+
+  const problems = validatePipelineDefinition(definition)
+  if (problems.length > 0) {
+    throw new Error(`Invalid pipeline definition:\n- ${problems.join("\n- ")}`)
+  }
+
+  return definition
+}
@@ -0,0 +1,49 @@
+/**
+ * Lambda responses shared by every handler. Failures use one envelope:
+ *
+ *   { success: false, error: { code, message, details? } }
+ *
+ * so callers can branch on `error.code` rather than parsing messages.
+ */
+
+export type ErrorCode =
+  | "VALIDATION_ERROR" // The event is malformed; details lists the issues
+  | "NOT_FOUND" // A program, day or broadcast the event refers to is missing
+  | "BUDGET_EXCEEDED" // The run's estimate exceeds a budget; details has it
+  | "CONFIGURATION_ERROR" // The function's environment is incomplete
+  | "INTERNAL_ERROR"
+
+const ERROR_STATUS_CODES: Record<ErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  NOT_FOUND: 404,
+  BUDGET_EXCEEDED: 403,
+  CONFIGURATION_ERROR: 500,
+  INTERNAL_ERROR: 500,
+}
+
+export interface ErrorBody {
+  success: false
+  error: { code: ErrorCode; message: string; details?: unknown }
+}
+
+export function errorResponse(
+  code: ErrorCode,
+  message: string,
+  details?: unknown
+) {
+  const body: ErrorBody = {
+    success: false,
+    error: { code, message, ...(details !== undefined && { details }) },
+  }
+  return { statusCode: ERROR_STATUS_CODES[code], body: JSON.stringify(body) }
+}
+
+/**
+ * Response for an unexpected error caught by a handler
+ */
+export function internalErrorResponse(error: unknown) {
+  return errorResponse(
+    "INTERNAL_ERROR",
+    error instanceof Error ? error.message : "Unknown error"
+  )
+}
@@ -0,0 +1,117 @@
+/**
+ * S3 helpers shared by the functions. One client per container, created on
+ * first use so functions that never touch S3 don't pay for it. S3_ENDPOINT
+ * points the client at an S3-compatible server (e.g. a local fake) instead.
+ */
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3"
+import { Upload } from "@aws-sdk/lib-storage"
+import { Readable } from "stream"
+
+// Multipart part size for streamed uploads; S3's minimum is 5 MiB
+const UPLOAD_PART_SIZE = 8 * 1024 * 1024
+
+let client: S3Client | null = null
+
+export function getS3Client(): S3Client {
+  client ||= new S3Client({
+    region: process.env.AWS_REGION || "ap-southeast-2",
+    ...(process.env.S3_ENDPOINT && {
+      endpoint: process.env.S3_ENDPOINT,
+      forcePathStyle: true,
+    }),
+  })
+  return client
+}
+
+/**
+ * Stream an object's body
+ */
+export async function getS3FileStream(
+  bucket: string,
+  key: string
+): Promise<Readable> {
+  const response = await getS3Client().send(
+    new GetObjectCommand({ Bucket: bucket, Key: key })
+  )
+  return response.Body as Readable
+}
+
+/**
+ * Read a whole object into memory
+ */
+export async function getS3File(bucket: string, key: string): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of await getS3FileStream(bucket, key)) {
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+export async function putS3File(
+  bucket: string,
+  key: string,
+  body: Buffer | string,
+  contentType: string
+): Promise<void> {
+  await getS3Client().send(
+    new PutObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    })
+  )
+}
+
+/**
+ * Stream a body of unknown length to S3 as a multipart upload, so only a few
+ * parts are held in memory at once. Resolves with the bytes uploaded.
+ */
+export async function uploadS3Stream(
+  bucket: string,
+  key: string,
+  body: Readable,
+  contentType: string,
+  onProgress?: (uploadedBytes: number) => void
+): Promise<number> {
+  let uploadedBytes = 0
+  const upload = new Upload({
+    client: getS3Client(),
+    params: { Bucket: bucket, Key: key, Body: body, ContentType: contentType },
+    partSize: UPLOAD_PART_SIZE,
+    queueSize: 2,
+    // Abort rather than leave orphaned parts behind on failure
+    leavePartsOnError: false,
+  })
+  upload.on("httpUploadProgress", ({ loaded }) => {
+    if (loaded === undefined) return
+    uploadedBytes = loaded
+    onProgress?.(loaded)
+  })
+  await upload.done()
+  return uploadedBytes
+}
+
+/**
+ * Whether an object exists
+ */
+export async function s3ObjectExists(
+  bucket: string,
+  key: string
+): Promise<boolean> {
+  try {
+    await getS3Client().send(
+      new HeadObjectCommand({ Bucket: bucket, Key: key })
+    )
+    return true
+  } catch (error) {
+    if (error instanceof NotFound) return false
+    throw error
+  }
+}
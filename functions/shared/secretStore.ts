@@ -0,0 +1,49 @@
+import {
+  SecretsManagerClient,
+  DescribeSecretCommand,
+  ResourceNotFoundException,
+} from "@aws-sdk/client-secrets-manager"
+import {
+  SSMClient,
+  GetParameterCommand,
+  ParameterNotFound,
+} from "@aws-sdk/client-ssm"
+import { localSecretStore, SecretStore } from "./launcherConfig"
+
+/**
+ * Secret store the launcher checks its secret reference against. With
+ * SECRET_STORE=local, references are looked up in LOCAL_SECRETS (JSON keyed
+ * by reference) instead of AWS.
+ */
+export function createSecretStore(region: string): SecretStore {
+  if (process.env.SECRET_STORE === "local") {
+    return localSecretStore(JSON.parse(process.env.LOCAL_SECRETS || "{}"))
+  }
+
+  const secretsManager = new SecretsManagerClient({ region })
+  const ssm = new SSMClient({ region })
+
+  return {
+    exists: async ({ source, ref }) => {
+      try {
+        if (source === "secretsmanager") {
+          await secretsManager.send(
+            new DescribeSecretCommand({ SecretId: ref })
+          )
+        } else {
+          // Without decryption, so the launcher never sees the value
+          await ssm.send(new GetParameterCommand({ Name: ref }))
+        }
+        return true
+      } catch (error) {
+        if (
+          error instanceof ResourceNotFoundException ||
+          error instanceof ParameterNotFound
+        ) {
+          return false
+        }
+        throw error
+      }
+    },
+  }
+}
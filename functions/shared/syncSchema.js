@@ -0,0 +1,58 @@
+// Copies the canonical Prisma schema (shared/prisma/schema.prisma) into every
+// function that generates a Prisma client. With --check, nothing is written
+// and the script fails if any function's copy has diverged.
+//
+//   node ../shared/syncSchema.js           # sync every function
+//   node ../shared/syncSchema.js --check   # fail on divergence (prebuild)
+const fs = require("fs")
+const path = require("path")
+
+const functionsDir = path.join(__dirname, "..")
+const canonicalPath = path.join(__dirname, "prisma", "schema.prisma")
+const check = process.argv.includes("--check")
+
+// Functions with their own prisma/ directory
+function functionSchemas() {
+  return fs
+    .readdirSync(functionsDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && entry.name !== "shared")
+    .map((entry) =>
+      path.join(functionsDir, entry.name, "prisma", "schema.prisma")
+    )
+    .filter((schemaPath) => fs.existsSync(path.dirname(schemaPath)))
+}
+
+function main() {
+  const canonical = fs.readFileSync(canonicalPath, "utf-8")
+  const diverged = []
+
+  for (const schemaPath of functionSchemas()) {
+    const name = path.relative(functionsDir, schemaPath)
+    const current = fs.existsSync(schemaPath)
+      ? fs.readFileSync(schemaPath, "utf-8")
+      : null
+    if (current === canonical) continue
+
+    if (check) {
+      diverged.push(name)
+    } else {
+      fs.writeFileSync(schemaPath, canonical)
+      console.log(`📝 Synced ${name}`)
+    }
+  }
+
+  if (diverged.length > 0) {
+    console.error(
+      `❌ Prisma schema copies differ from shared/prisma/schema.prisma:\n${diverged
+        .map((name) => `  - ${name}`)
+        .join("\n")}\nRun 'npm run sync-schema' in functions/shared.`
+    )
+    process.exit(1)
+  }
+
+  console.log(
+    check ? "✅ Prisma schema copies are in sync" : "✅ Prisma schemas synced"
+  )
+}
+
+main()
@@ -0,0 +1,297 @@
+/**
+ * Runtime schemas for Lambda events. Each handler declares a schema next to
+ * its event interface (typed `Schema<Event>`, so the two can't drift) and
+ * validates the incoming event before using it. Every issue is reported at
+ * once, with the path of the offending field.
+ */
+import { pricedInstanceTypes } from "./costEstimate"
+import { getChannel, getChannels, getRegion, getRegions } from "./markets"
+import { errorResponse } from "./responses"
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export interface Schema<T> {
+  optional: boolean
+  check(value: unknown, path: string, issues: ValidationIssue[]): T
+}
+
+type Infer<S> = S extends Schema<infer T> ? T : never
+
+type ObjectShape = Record<string, Schema<unknown>>
+
+// Optional fields become optional properties
+type InferObject<S extends ObjectShape> = {
+  [K in keyof S as S[K]["optional"] extends true ? never : K]: Infer<S[K]>
+} & {
+  [K in keyof S as S[K]["optional"] extends true ? K : never]?: Infer<S[K]>
+}
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "an array" : typeof value
+
+interface StringOptions {
+  pattern?: RegExp
+  format?: string // Describes the pattern in messages, e.g. "YYYY-MM-DD"
+  test?: (value: string) => boolean // Extra check, described by `format`
+}
+
+export function string(options: StringOptions = {}): Schema<string> {
+  return {
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== "string" || value.trim() === "") {
+        issues.push({
+          path,
+          message: `must be a non-empty string, got ${describe(value)}`,
+        })
+      } else if (
+        (options.pattern && !options.pattern.test(value)) ||
+        (options.test && !options.test(value))
+      ) {
+        issues.push({
+          path,
+          message: `must be ${options.format || `like ${options.pattern}`}`,
+        })
+      }
+      return value as string
+    },
+  }
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    optional: false,
+    check(value, path, issues) {
+      if (!values.includes(value as T)) {
+        issues.push({ path, message: `must be one of ${values.join(", ")}` })
+      }
+      return value as T
+    },
+  }
+}
+
+interface NumberOptions {
+  min?: number
+  max?: number
+  integer?: boolean
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  return {
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({
+          path,
+          message: `must be a number, got ${describe(value)}`,
+        })
+      } else if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: "must be a whole number" })
+      } else if (options.min !== undefined && value < options.min) {
+        issues.push({ path, message: `must be at least ${options.min}` })
+      } else if (options.max !== undefined && value > options.max) {
+        issues.push({ path, message: `must be at most ${options.max}` })
+      }
+      return value as number
+    },
+  }
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== "boolean") {
+        issues.push({
+          path,
+          message: `must be true or false, got ${describe(value)}`,
+        })
+      }
+      return value as boolean
+    },
+  }
+}
+
+export function literal<T extends string | number | boolean>(
+  expected: T
+): Schema<T> {
+  return {
+    optional: false,
+    check(value, path, issues) {
+      if (value !== expected) {
+        issues.push({ path, message: `must be ${JSON.stringify(expected)}` })
+      }
+      return value as T
+    },
+  }
+}
+
+export function array<T>(
+  item: Schema<T>,
+  {
+    minItems = 0,
+    maxItems = Infinity,
+  }: { minItems?: number; maxItems?: number } = {}
+): Schema<T[]> {
+  return {
+    optional: false,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `must be an array, got ${describe(value)}`,
+        })
+        return value as T[]
+      }
+      if (value.length < minItems) {
+        issues.push({ path, message: `must have at least ${minItems} item(s)` })
+      }
+      if (value.length > maxItems) {
+        issues.push({ path, message: `must have at most ${maxItems} item(s)` })
+      }
+      return value.map((element, index) =>
+        item.check(element, `${path}[${index}]`, issues)
+      )
+    },
+  }
+}
+
+// Absent (undefined or null) values pass; anything else must match
+export function optional<T>(
+  schema: Schema<T>
+): Schema<T | undefined> & { optional: true } {
+  return {
+    optional: true,
+    check: (value, path, issues) =>
+      value === undefined || value === null
+        ? undefined
+        : schema.check(value, path, issues),
+  }
+}
+
+export function object<S extends ObjectShape>(
+  shape: S
+): Schema<InferObject<S>> {
+  return {
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({
+          path: path || "event",
+          message: `must be an object, got ${describe(value)}`,
+        })
+        return value as InferObject<S>
+      }
+      const input = value as Record<string, unknown>
+      for (const [key, field] of Object.entries(shape)) {
+        const fieldPath = path ? `${path}.${key}` : key
+        if (
+          !field.optional &&
+          (input[key] === undefined || input[key] === null)
+        ) {
+          issues.push({ path: fieldPath, message: "is required" })
+        } else {
+          field.check(input[key], fieldPath, issues)
+        }
+      }
+      // Unknown fields are passed through untouched
+      return input as InferObject<S>
+    },
+  }
+}
+
+// Cross-field check on an object, reported at the object's path
+export function refine<T>(
+  schema: Schema<T>,
+  test: (value: T) => string | null // Returns the problem, if any
+): Schema<T> {
+  return {
+    optional: schema.optional,
+    check(value, path, issues) {
+      const before = issues.length
+      const checked = schema.check(value, path, issues)
+      if (issues.length === before) {
+        const problem = test(checked)
+        if (problem) issues.push({ path: path || "event", message: problem })
+      }
+      return checked
+    },
+  }
+}
+
+/**
+ * Validate an event, returning its typed value or every issue found
+ */
+export function validate<T>(
+  schema: Schema<T>,
+  input: unknown
+): { value: T; issues: null } | { value: null; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = []
+  const value = schema.check(input, "", issues)
+  return issues.length > 0 ? { value: null, issues } : { value, issues: null }
+}
+
+/**
+ * VALIDATION_ERROR response listing the issues
+ */
+export function validationErrorResponse(issues: ValidationIssue[]) {
+  return errorResponse(
+    "VALIDATION_ERROR",
+    issues.map(({ path, message }) => `${path} ${message}`).join("; "),
+    { issues }
+  )
+}
+
+// Fields shared by several events
+
+export const channelCode = () =>
+  string({
+    test: (value) => !!getChannel(value),
+    format: `a channel (${getChannels()
+      .map(({ code }) => code)
+      .join(", ")})`,
+  })
+
+export const regionCode = () =>
+  string({
+    test: (value) => !!getRegion(value),
+    format: `a region (${getRegions()
+      .map(({ code }) => code)
+      .join(", ")})`,
+  })
+
+// Calendar date, e.g. a Day's date or a broadcast_date
+export const calendarDate = () =>
+  string({
+    pattern: /^\d{4}-\d{2}-\d{2}$/,
+    test: (value) =>
+      !isNaN(Date.parse(`${value}T00:00:00Z`)) &&
+      new Date(`${value}T00:00:00Z`).toISOString().startsWith(value),
+    format: "a date as YYYY-MM-DD",
+  })
+
+export const timeOfDay = () =>
+  string({
+    pattern: /^([01]\d|2[0-3]):[0-5]\d:[0-5]\d$/,
+    format: "a time as HH:MM:SS",
+  })
+
+// Instance types the launchers will run: those with a configured price
+export const instanceType = () => oneOf(pricedInstanceTypes())
+
+export const retryOptions = () =>
+  object({
+    maxAttempts: optional(number({ min: 0, max: 20, integer: true })),
+    intervalSeconds: optional(number({ min: 1, integer: true })),
+    backoffRate: optional(number({ min: 1 })),
+  })
+
+export const spotOptions = () =>
+  object({
+    enabled: optional(boolean()),
+    maxWaitTimeInSeconds: optional(number({ min: 1, integer: true })),
+    fallbackToOnDemand: optional(boolean()),
+  })